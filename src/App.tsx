@@ -1,25 +1,30 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { Canvas, type CanvasHandle } from './view/Canvas';
 import { ControlPanel } from './view/ControlPanel';
-import type { PoseData } from './core/types';
+import type { PoseData, BoneScales, PhysicsConfig, JointLimits, Collider, Point, ActiveRagdollSettings, ForceField, PhysicsScene, ChainDefinition, PropDefinition, PoseLibraryEntry, RigDefinition } from './core/types';
 import { 
-  getDefaultPose
+  getDefaultPose,
+  jointConstraints,
+  computeRigSkeleton,
+  HUMANOID_RIG
 } from './core/kinematics';
+import { getRigTables, createRigPose } from './core/rig';
 import { useHistory } from './hooks/useHistory';
 import { usePlayback } from './hooks/usePlayback';
 import { usePhysics } from './hooks/usePhysics';
-
-// The state managed by useHistory will now be the entire timeline structure.
-interface TimelineState {
-  keyframes: PoseData[];
-  currentFrame: number;
-}
+import { DEFAULT_PHYSICS_CONFIG, DEFAULT_ACTIVE_RAGDOLL, getMotorJoints } from './core/physics';
+import { type TimelineState, insertKeyframes } from './core/timeline';
+import { measureBalance, getPinnedFeet } from './core/balance';
+import { getPropMasses } from './core/props';
+import { mirrorPose, copySide, type Side } from './core/mirror';
+import { BODY_MASKS, applyPoseMask, type BodyMask } from './core/masks';
 
 export function App() {
   const { 
     state: timelineState, 
     setState: setTimelineState, 
+    reset: resetTimeline,
     undo, 
     redo, 
     canUndo, 
@@ -31,14 +36,36 @@ export function App() {
     currentFrame: 0 
   });
 
+  const [rig, setRig] = useState<RigDefinition>(HUMANOID_RIG);
   const [selectedPartKey, setSelectedPartKey] = useState<string | null>(null);
   const [showSplash, setShowSplash] = useState(true);
   const [isPlaying, setIsPlaying] = useState(false); // Playback state
   const [isPhysicsEnabled, setIsPhysicsEnabled] = useState(false); // Physics state
+  const [physicsConfig, setPhysicsConfig] = useState<PhysicsConfig>(DEFAULT_PHYSICS_CONFIG);
+  const [jointLimits, setJointLimits] = useState<JointLimits>(jointConstraints);
+  const [colliders, setColliders] = useState<Collider[]>([]);
+  const [forceFields, setForceFields] = useState<ForceField[]>([]);
+  const [chains, setChains] = useState<ChainDefinition[]>([]);
+  const [sceneProps, setSceneProps] = useState<PropDefinition[]>([]);
+  const [poseLibrary, setPoseLibrary] = useState<PoseLibraryEntry[]>([]);
+  const [bodyMask, setBodyMask] = useState<BodyMask>(BODY_MASKS['full body']);
+  const [poseClipboard, setPoseClipboard] = useState<PoseData | null>(null);
+  const [showBalance, setShowBalance] = useState(false);
+  const [autoBalance, setAutoBalance] = useState(false);
+  const [isEditingScene, setIsEditingScene] = useState(false);
+  const [isEditingLimits, setIsEditingLimits] = useState(false);
+  const [userPins, setUserPins] = useState<{ [key: string]: Point }>({});
+  const [bodyRestitution, setBodyRestitution] = useState<number | null>(null);
+  const [boneCompliance, setBoneCompliance] = useState<{ [key: string]: number }>({});
+  const [boneDamping, setBoneDamping] = useState<{ [key: string]: number }>({});
+  const [activeRagdoll, setActiveRagdoll] = useState<ActiveRagdollSettings>(DEFAULT_ACTIVE_RAGDOLL);
   const [uiPosition, setUiPosition] = useState<'left' | 'right'>('left');
   const canvasRef = useRef<CanvasHandle>(null);
   
   const currentPose = timelineState.keyframes[timelineState.currentFrame];
+  // Read when a recording lands, which can be long after the render that started it.
+  const timelineRef = useRef<TimelineState>(timelineState);
+  timelineRef.current = timelineState;
 
   const handlePoseCommit = (newPose: PoseData) => {
     // We are updating the pose for the current keyframe.
@@ -47,21 +74,82 @@ export function App() {
     setTimelineState({ ...timelineState, keyframes: newKeyframes });
   };
 
+  // A body type holds for the whole animation, so it replaces every keyframe's scale.
+  const handleProportionPreset = (scale: BoneScales) => {
+    setTimelineState({ ...timelineState, keyframes: timelineState.keyframes.map(pose => ({ ...pose, scale: { ...scale } })) });
+  };
+
+  const handlePoseScaleChange = (scale: BoneScales) => {
+    handlePoseCommit({ ...currentPose, scale });
+  };
+
+  const handlePosePropsChange = (props: PoseData['props']) => {
+    handlePoseCommit({ ...currentPose, props });
+  };
+
+  const handlePoseLayersChange = (layers: PoseData['layers']) => {
+    handlePoseCommit({ ...currentPose, layers });
+  };
+
+  const handleMirrorPose = () => {
+    handlePoseCommit(mirrorPose(currentPose));
+  };
+
+  const handleMirrorAnimation = () => {
+    setTimelineState({ ...timelineState, keyframes: timelineState.keyframes.map(pose => mirrorPose(pose)) });
+  };
+
+  const handleCopySide = (from: Side, limb?: string) => {
+    handlePoseCommit(copySide(currentPose, from, limb));
+  };
+
   const handleSelectPart = (key: string) => {
     setSelectedPartKey(key);
   };
   
+  // Only the parts in the body mask go back to the T-pose; other rigs have no mask and reset whole.
   const handleReset = () => {
     setIsPhysicsEnabled(false);
-    handlePoseCommit(getDefaultPose());
+    const defaultPose = createRigPose(rig) as PoseData;
+    handlePoseCommit(rig === HUMANOID_RIG ? applyPoseMask(currentPose, defaultPose, bodyMask) : defaultPose);
+  };
+
+  // Keyframes, pins and per-joint settings are all keyed by the old rig's joints, so a new rig starts over.
+  const handleRigChange = (newRig: RigDefinition) => {
+    setIsPhysicsEnabled(false);
+    setIsPlaying(false);
+    setRig(newRig);
+    resetTimeline({ keyframes: [createRigPose(newRig) as PoseData], currentFrame: 0 });
+    setJointLimits(getRigTables(newRig).limits);
+    setSelectedPartKey(null);
+    setUserPins({});
+    setBoneCompliance({});
+    setBoneDamping({});
+    setActiveRagdoll(settings => ({ ...settings, jointStrengths: Object.fromEntries(getMotorJoints(newRig).map(key => [key, 1])) }));
+    setPoseClipboard(null);
+  };
+
+  const handleCopyPose = () => {
+    setPoseClipboard(JSON.parse(JSON.stringify(currentPose)));
+  };
+
+  const handlePastePose = () => {
+    if (!poseClipboard) return;
+    setIsPhysicsEnabled(false);
+    handlePoseCommit(applyPoseMask(currentPose, poseClipboard, bodyMask));
+  };
+
+  const handleBlendKeyframe = (index: number, t: number) => {
+    setIsPhysicsEnabled(false);
+    handlePoseCommit(applyPoseMask(currentPose, timelineState.keyframes[index], bodyMask, t));
   };
 
   const handleTogglePhysics = () => {
     if (!isPhysicsEnabled) {
       // Start physics from the current pose.
       setIsPhysicsEnabled(true);
-      // And ensure playback is stopped.
-      setIsPlaying(false);
+      // Playback keeps going only if the active ragdoll is there to follow it.
+      if (!activeRagdoll.enabled) setIsPlaying(false);
     } else {
       // Just turn it off.
       setIsPhysicsEnabled(false);
@@ -99,13 +187,31 @@ export function App() {
     });
   };
 
+  // Library poses only change the parts in the body mask; the rest keeps the current keyframe's.
+  const handleApplyLibraryPose = (pose: PoseData) => {
+    setIsPhysicsEnabled(false);
+    handlePoseCommit(applyPoseMask(currentPose, pose, bodyMask));
+  };
+
+  const handleInsertLibraryPose = (pose: PoseData) => {
+    setIsPhysicsEnabled(false);
+    setIsPlaying(false);
+    setTimelineState(insertKeyframes(timelineState, timelineState.currentFrame, [applyPoseMask(currentPose, pose, bodyMask)]));
+  };
+
   const handleTogglePlay = () => {
-    if (isPhysicsEnabled) setIsPhysicsEnabled(false);
+    if (isPhysicsEnabled && !activeRagdoll.enabled) setIsPhysicsEnabled(false);
     if (timelineState.keyframes.length > 1) {
       setIsPlaying(p => !p);
     }
   };
   
+  const handleActiveRagdollChange = (settings: ActiveRagdollSettings) => {
+    // Without motors the simulation ignores the animation, so there is nothing left to play.
+    if (!settings.enabled && isPhysicsEnabled) setIsPlaying(false);
+    setActiveRagdoll(settings);
+  };
+
   const handleToggleUiPosition = () => {
     setUiPosition(pos => pos === 'left' ? 'right' : 'left');
   };
@@ -114,17 +220,56 @@ export function App() {
   const animatedPose = usePlayback({
     keyframes: timelineState.keyframes,
     isPlaying,
-    startFrame: timelineState.currentFrame
+    startFrame: timelineState.currentFrame,
+    rig
   });
   
   const poseForAnimateOrSelect = isPlaying ? animatedPose : currentPose;
   
-  const { pose: physicalPose } = usePhysics({
+  // One bounciness for the whole body; the physics core takes it per joint.
+  const restitution = useMemo(
+    () => bodyRestitution === null ? {} : Object.fromEntries(Object.keys(getRigTables(rig).hierarchy).map(key => [key, bodyRestitution])),
+    [bodyRestitution, rig]
+  );
+
+  // Props weigh down the bones holding them in the pose being shown, so hand-offs move the weight during playback.
+  // Keyed by value: playback makes a new pose every frame, but the masses only change at a hand-off.
+  const propMassesKey = JSON.stringify(getPropMasses(poseForAnimateOrSelect, sceneProps));
+  const attachedMass = useMemo<{ [key: string]: number }>(() => JSON.parse(propMassesKey), [propMassesKey]);
+
+  const { pose: physicalPose, targets, pointer: physicsPointer, recorder, scrubber, applyImpulse } = usePhysics({
     targetPose: poseForAnimateOrSelect,
     isEnabled: isPhysicsEnabled,
+    config: physicsConfig,
+    jointLimits,
+    colliders,
+    forceFields,
+    pins: userPins,
+    onPinsChange: setUserPins,
+    activeRagdoll,
+    restitution,
+    compliance: boneCompliance,
+    damping: boneDamping,
+    attachedMass,
+    rig,
   });
 
   const poseForCanvas = isPhysicsEnabled ? physicalPose : poseForAnimateOrSelect;
+  const balance = useMemo(() => measureBalance(computeRigSkeleton(rig, poseForCanvas), getPinnedFeet(userPins)), [rig, poseForCanvas, userPins]);
+
+  const handleSceneLoad = (scene: PhysicsScene) => {
+    setColliders(scene.colliders);
+    setForceFields(scene.forceFields);
+    setSceneProps(scene.props);
+  };
+
+  const handleStartRecording = (rate: number, duration: number) => {
+    // Keyframes can still be edited (or undone) while the recording runs, so the bake goes into the timeline as it is when it lands.
+    recorder.start(rate, duration, poses => {
+      const timeline = timelineRef.current;
+      setTimelineState(insertKeyframes(timeline, timeline.currentFrame, poses));
+    });
+  };
 
   return (
     <div 
@@ -132,6 +277,8 @@ export function App() {
       onMouseDown={() => { if (showSplash) setShowSplash(false); }}
     >
       <ControlPanel 
+        rig={rig}
+        onRigChange={handleRigChange}
         onUndo={undo} 
         onRedo={redo} 
         canUndo={canUndo} 
@@ -146,8 +293,71 @@ export function App() {
         onDeleteFrame={handleDeleteFrame}
         isPlaying={isPlaying}
         onTogglePlay={handleTogglePlay}
+        canPlayWithPhysics={activeRagdoll.enabled}
+        simFrame={scrubber.frame}
+        simLength={scrubber.length}
+        simTime={scrubber.time}
+        isSimPaused={scrubber.isPaused}
+        onSimSeek={scrubber.seek}
+        onSimTogglePause={scrubber.isPaused ? scrubber.resume : scrubber.pause}
+        onSimStep={scrubber.step}
         uiPosition={uiPosition}
         onToggleUiPosition={handleToggleUiPosition}
+        physicsConfig={physicsConfig}
+        onPhysicsConfigChange={setPhysicsConfig}
+        recordProgress={recorder.progress}
+        onStartRecording={handleStartRecording}
+        onStopRecording={recorder.stop}
+        bodyRestitution={bodyRestitution}
+        onBodyRestitutionChange={setBodyRestitution}
+        boneCompliance={boneCompliance}
+        onBoneComplianceChange={setBoneCompliance}
+        boneDamping={boneDamping}
+        onBoneDampingChange={setBoneDamping}
+        jointLimits={jointLimits}
+        onJointLimitsChange={setJointLimits}
+        isEditingLimits={isEditingLimits}
+        onToggleEditingLimits={() => setIsEditingLimits(e => !e)}
+        activeRagdoll={activeRagdoll}
+        onActiveRagdollChange={handleActiveRagdollChange}
+        colliders={colliders}
+        onCollidersChange={setColliders}
+        isEditingScene={isEditingScene}
+        onToggleEditingScene={() => setIsEditingScene(e => !e)}
+        forceFields={forceFields}
+        onForceFieldsChange={setForceFields}
+        onApplyImpulse={applyImpulse}
+        onSceneLoad={handleSceneLoad}
+        chains={chains}
+        onChainsChange={setChains}
+        balance={balance}
+        showBalance={showBalance}
+        onToggleShowBalance={() => setShowBalance(b => !b)}
+        autoBalance={autoBalance}
+        onToggleAutoBalance={() => setAutoBalance(b => !b)}
+        poseScale={currentPose.scale}
+        selectedPartKey={selectedPartKey}
+        onPoseScaleChange={handlePoseScaleChange}
+        onProportionPreset={handleProportionPreset}
+        props={sceneProps}
+        onPropsChange={setSceneProps}
+        currentPose={currentPose}
+        onPosePropsChange={handlePosePropsChange}
+        onMirrorPose={handleMirrorPose}
+        onMirrorAnimation={handleMirrorAnimation}
+        onCopySide={handleCopySide}
+        poseLibrary={poseLibrary}
+        onPoseLibraryChange={setPoseLibrary}
+        onApplyPose={handleApplyLibraryPose}
+        onInsertPose={handleInsertLibraryPose}
+        bodyMask={bodyMask}
+        onBodyMaskChange={setBodyMask}
+        poseClipboard={poseClipboard}
+        onCopyPose={handleCopyPose}
+        onPastePose={handlePastePose}
+        onBlendKeyframe={handleBlendKeyframe}
+        poseLayers={currentPose.layers}
+        onPoseLayersChange={handlePoseLayersChange}
       />
       <div className="flex-1 flex items-center justify-center relative">
         {showSplash && (
@@ -160,12 +370,30 @@ export function App() {
 
         <Canvas 
           ref={canvasRef}
+          rig={rig}
           pose={poseForCanvas} 
           onPoseCommit={handlePoseCommit} 
           selectedPartKey={selectedPartKey}
           onSelectPart={handleSelectPart}
           onDeselect={() => setSelectedPartKey(null)}
           isInteractionDisabled={isPhysicsEnabled}
+          targets={isPhysicsEnabled ? targets : undefined}
+          physicsPointer={isPhysicsEnabled ? physicsPointer : undefined}
+          colliders={colliders}
+          isEditingScene={isEditingScene}
+          onCollidersChange={setColliders}
+          forceFields={forceFields}
+          onForceFieldsChange={setForceFields}
+          chains={chains}
+          gravity={physicsConfig.gravity}
+          showBalance={showBalance && rig === HUMANOID_RIG}
+          autoBalance={autoBalance}
+          userPins={userPins}
+          onUserPinsChange={setUserPins}
+          jointLimits={jointLimits}
+          isEditingLimits={isEditingLimits}
+          onJointLimitsChange={setJointLimits}
+          props={sceneProps}
         />
       </div>
     </div>
@@ -0,0 +1,93 @@
+import type { Balance, Point, Skeleton } from './types';
+import { getParticleMass } from './physics';
+
+const FEET = ['left.foot', 'right.foot'];
+// A foot this close to the lowest foot still counts as standing on the ground.
+const GROUND_TOLERANCE = 6;
+// How far inside the support auto-balance keeps the centre of mass, at most.
+const BALANCE_MARGIN = 10;
+
+/**
+ * The mass-weighted average of the joints, using the masses the physics body gives them.
+ */
+export function computeCenterOfMass(skeleton: Skeleton): Point {
+    let total = 0;
+    const sum = { x: 0, y: 0 };
+    Object.entries(skeleton.joints).forEach(([key, p]) => {
+        const mass = getParticleMass(key);
+        sum.x += p.x * mass;
+        sum.y += p.y * mass;
+        total += mass;
+    });
+    return total > 0 ? { x: sum.x / total, y: sum.y / total } : { x: 0, y: 0 };
+}
+
+// Heel and toe: the ends of the foot bone.
+const footContacts = (skeleton: Skeleton, key: string): Point[] => {
+    const bone = skeleton.bones.find(b => b.key === key);
+    return bone ? [bone.start, bone.end] : [];
+};
+
+// Andrew's monotone chain. Collinear points are dropped.
+const convexHull = (points: Point[]): Point[] => {
+    if (points.length < 3) return points.map(p => ({ ...p }));
+    const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+    const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+    const build = (list: Point[]) => {
+        const hull: Point[] = [];
+        list.forEach(p => {
+            while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], p) <= 0) hull.pop();
+            hull.push(p);
+        });
+        hull.pop();
+        return hull;
+    };
+    return [...build(sorted), ...build([...sorted].reverse())].map(p => ({ ...p }));
+};
+
+/**
+ * Pinned feet are taken to be the ones standing on the ground. Undefined when no foot is pinned,
+ * so callers fall back to finding the lowest feet.
+ */
+export function getPinnedFeet(pins: { [key: string]: Point }): string[] | undefined {
+    const feet = FEET.filter(key => pins[key]);
+    return feet.length > 0 ? feet : undefined;
+}
+
+/**
+ * The area the pose stands on. `groundedFeet` names the feet on the ground; by default it is
+ * whichever feet are level with the lowest one.
+ */
+export function getSupportPolygon(skeleton: Skeleton, groundedFeet?: string[]): Point[] {
+    let feet = groundedFeet;
+    if (!feet) {
+        const lowest = FEET.map(key => Math.max(...footContacts(skeleton, key).map(p => p.y)));
+        const ground = Math.max(...lowest);
+        feet = FEET.filter((_, i) => lowest[i] >= ground - GROUND_TOLERANCE);
+    }
+    return convexHull(feet.flatMap(key => footContacts(skeleton, key)));
+}
+
+export function measureBalance(skeleton: Skeleton, groundedFeet?: string[]): Balance {
+    const centerOfMass = computeCenterOfMass(skeleton);
+    const support = getSupportPolygon(skeleton, groundedFeet);
+    if (support.length === 0) return { centerOfMass, support, isBalanced: false, margin: -Infinity };
+    const minX = Math.min(...support.map(p => p.x));
+    const maxX = Math.max(...support.map(p => p.x));
+    const margin = Math.min(centerOfMass.x - minX, maxX - centerOfMass.x);
+    return { centerOfMass, support, isBalanced: margin >= 0, margin };
+}
+
+/**
+ * The horizontal shift of the body that would bring its centre of mass back over its support.
+ * Zero when it is already balanced.
+ */
+export function getBalanceShift(skeleton: Skeleton, groundedFeet?: string[]): number {
+    const { centerOfMass, support } = measureBalance(skeleton, groundedFeet);
+    if (support.length === 0) return 0;
+    const minX = Math.min(...support.map(p => p.x));
+    const maxX = Math.max(...support.map(p => p.x));
+    const margin = Math.min(BALANCE_MARGIN, (maxX - minX) / 2);
+    const target = Math.max(minX + margin, Math.min(maxX - margin, centerOfMass.x));
+    return target - centerOfMass.x;
+}
@@ -0,0 +1,106 @@
+import type { ChainDefinition, ChainState, Collider, Point, Skeleton } from './types';
+import { collideWithColliders, collideWithBounds, SURFACE_MATERIALS } from './colliders';
+
+// Relaxation passes per step. Chains are short, so a fixed count is enough.
+const CHAIN_ITERATIONS = 8;
+
+export type ChainPresetKind = 'ponytail' | 'scarf' | 'tail' | 'ribbon';
+
+/**
+ * Returns a new chain of the given kind, hung from the bone it usually belongs to.
+ */
+export function createChainPreset(kind: ChainPresetKind): ChainDefinition {
+    switch (kind) {
+        case 'ponytail':
+            return { bone: 'head', anchor: { x: 56, y: 0 }, angle: Math.PI - 0.5, segments: 8, length: 120, stiffness: 0.3, damping: 0.05, width: 14, style: 'fill', color: '#4D4D4D' };
+        case 'scarf':
+            return { bone: 'torso', anchor: { x: 85, y: 0 }, angle: Math.PI + 0.3, segments: 10, length: 160, stiffness: 0.1, damping: 0.08, width: 26, style: 'fill', color: '#E07A5F' };
+        case 'tail':
+            return { bone: 'waist', anchor: { x: 10, y: 0 }, angle: Math.PI / 2, segments: 10, length: 150, stiffness: 0.6, damping: 0.04, width: 18, style: 'fill', color: '#1A1A1A' };
+        case 'ribbon':
+            return { bone: 'right.hand', anchor: { x: 30, y: 0 }, angle: 0, segments: 14, length: 220, stiffness: 0.02, damping: 0.03, width: 6, style: 'stroke', color: '#E025A8' };
+    }
+}
+
+/**
+ * Where a chain is attached in world space, and the world direction its first segment rests in.
+ * Returns null when the skeleton has no such bone.
+ */
+export function getChainAnchor(skeleton: Skeleton, chain: ChainDefinition): { pos: Point; angle: number } | null {
+    const bone = skeleton.bones.find(b => b.key === chain.bone);
+    if (!bone) return null;
+    const cos = Math.cos(bone.angle), sin = Math.sin(bone.angle);
+    // The anchor stays on the same spot of a squashed or stretched bone.
+    const x = chain.anchor.x * (bone.scale?.x ?? 1), y = chain.anchor.y * (bone.scale?.y ?? 1);
+    return {
+        pos: {
+            x: bone.start.x + x * cos - y * sin,
+            y: bone.start.y + x * sin + y * cos,
+        },
+        angle: bone.angle + chain.angle,
+    };
+}
+
+/**
+ * Lays a chain out at rest, straight out from its anchor.
+ */
+export function createChainState(chain: ChainDefinition, anchor: { pos: Point; angle: number }): ChainState {
+    const segmentLength = chain.length / chain.segments;
+    const points = Array.from({ length: chain.segments + 1 }, (_, i) => ({
+        x: anchor.pos.x + Math.cos(anchor.angle) * segmentLength * i,
+        y: anchor.pos.y + Math.sin(anchor.angle) * segmentLength * i,
+    }));
+    return { points, prevPoints: points.map(p => ({ ...p })) };
+}
+
+/**
+ * Advances a chain by one step of `dt` seconds. Its root is carried along with the anchor, so
+ * whatever moves the bone (keyframes or the ragdoll) swings the rest of the chain behind it.
+ */
+export function stepChain(state: ChainState, chain: ChainDefinition, anchor: { pos: Point; angle: number }, gravity: Point, dt: number, colliders: Collider[] = []): void {
+    const { points, prevPoints } = state;
+    const segmentLength = chain.length / chain.segments;
+    const keep = 1 - chain.damping;
+
+    for (let i = 1; i < points.length; i++) {
+        const p = points[i], prev = prevPoints[i];
+        const vx = (p.x - prev.x) * keep;
+        const vy = (p.y - prev.y) * keep;
+        prevPoints[i] = { ...p };
+        points[i] = { x: p.x + vx + gravity.x * dt * dt, y: p.y + vy + gravity.y * dt * dt };
+    }
+    points[0] = { ...anchor.pos };
+    prevPoints[0] = { ...anchor.pos };
+
+    // Split the stiffness across iterations so it means the same whatever the iteration count.
+    const bend = 1 - Math.pow(1 - chain.stiffness, 1 / CHAIN_ITERATIONS);
+    for (let iter = 0; iter < CHAIN_ITERATIONS; iter++) {
+        // Shape: turn every segment towards the rest direction, which follows the bone.
+        for (let i = 1; i < points.length; i++) {
+            const a = points[i - 1], p = points[i];
+            p.x += (a.x + Math.cos(anchor.angle) * segmentLength - p.x) * bend;
+            p.y += (a.y + Math.sin(anchor.angle) * segmentLength - p.y) * bend;
+        }
+        // Length: the root never moves, so the first segment is corrected entirely at its tip.
+        for (let i = 1; i < points.length; i++) {
+            const a = points[i - 1], b = points[i];
+            const dx = b.x - a.x, dy = b.y - a.y;
+            const dist = Math.hypot(dx, dy);
+            if (dist === 0) continue;
+            const diff = (dist - segmentLength) / dist;
+            const share = i === 1 ? 1 : 0.5;
+            b.x -= dx * diff * share;
+            b.y -= dy * diff * share;
+            if (i > 1) {
+                a.x += dx * diff * share;
+                a.y += dy * diff * share;
+            }
+        }
+    }
+
+    const radius = Math.min(chain.width / 2, segmentLength / 2);
+    for (let i = 1; i < points.length; i++) {
+        collideWithColliders(points[i], prevPoints[i], radius, colliders);
+        collideWithBounds(points[i], prevPoints[i], radius, SURFACE_MATERIALS['default']);
+    }
+}
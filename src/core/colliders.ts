@@ -0,0 +1,164 @@
+import type { Collider, ColliderKind, Point, SurfaceMaterial } from './types';
+import { W, H } from './kinematics';
+
+export const SURFACE_MATERIALS: { [name: string]: SurfaceMaterial } = {
+    'default': { friction: 0.2, restitution: 0 },
+    'ice': { friction: 0.01, restitution: 0 },
+    'rubber': { friction: 0.8, restitution: 0.75 },
+    'mud': { friction: 0.9, restitution: 0 },
+};
+
+/**
+ * Returns a new collider of the given kind, placed at a sensible spot on the canvas.
+ */
+export function createColliderPreset(kind: ColliderKind): Collider {
+    return { ...createColliderShape(kind), material: SURFACE_MATERIALS['default'] };
+}
+
+const createColliderShape = (kind: ColliderKind): Omit<Collider, 'material'> => {
+    switch (kind) {
+        case 'floor':
+            return { kind, points: [{ x: 0, y: H - 150 }, { x: W, y: H - 150 }, { x: W, y: H }, { x: 0, y: H }] };
+        case 'slope':
+            return { kind, points: [{ x: 0, y: H - 300 }, { x: W * 0.6, y: H }, { x: 0, y: H }] };
+        case 'stairs': {
+            const stepCount = 5, stepWidth = 70, stepHeight = 45;
+            const points: Point[] = [{ x: W, y: H }, { x: W - stepCount * stepWidth, y: H }];
+            for (let i = 0; i < stepCount; i++) {
+                const x = W - (stepCount - i) * stepWidth;
+                points.push({ x, y: H - (i + 1) * stepHeight });
+                points.push({ x: x + stepWidth, y: H - (i + 1) * stepHeight });
+            }
+            return { kind, points };
+        }
+        case 'platform':
+            return { kind, points: [{ x: W / 2 - 120, y: H / 2 + 100 }, { x: W / 2 + 120, y: H / 2 + 100 }, { x: W / 2 + 120, y: H / 2 + 124 }, { x: W / 2 - 120, y: H / 2 + 124 }] };
+        case 'polygon': {
+            const points: Point[] = [];
+            for (let i = 0; i < 5; i++) {
+                const angle = -Math.PI / 2 + (i * 2 * Math.PI) / 5;
+                points.push({ x: W / 2 + Math.cos(angle) * 80, y: H / 2 + 150 + Math.sin(angle) * 80 });
+            }
+            return { kind, points };
+        }
+    }
+};
+
+const closestPointOnSegment = (p: Point, a: Point, b: Point): Point => {
+    const abx = b.x - a.x, aby = b.y - a.y;
+    const lenSq = abx * abx + aby * aby;
+    if (lenSq === 0) return { ...a };
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / lenSq));
+    return { x: a.x + abx * t, y: a.y + aby * t };
+};
+
+/**
+ * Even-odd point-in-polygon test; works for concave shapes such as stairs.
+ */
+export function isPointInCollider(p: Point, collider: Collider): boolean {
+    const pts = collider.points;
+    let inside = false;
+    for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        const a = pts[i], b = pts[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Pushes a circle out of a collider, writing the corrected centre into `pos`.
+ * Returns the outward contact normal, or null when there is no contact.
+ */
+export function resolveCircleCollider(pos: Point, radius: number, collider: Collider): Point | null {
+    const pts = collider.points;
+    if (pts.length < 2) return null;
+
+    let closest: Point | null = null;
+    let closestDistSq = Infinity;
+    let closestEdge = 0;
+    for (let i = 0; i < pts.length; i++) {
+        const q = closestPointOnSegment(pos, pts[i], pts[(i + 1) % pts.length]);
+        const distSq = (q.x - pos.x) ** 2 + (q.y - pos.y) ** 2;
+        if (distSq < closestDistSq) {
+            closestDistSq = distSq;
+            closest = q;
+            closestEdge = i;
+        }
+    }
+    if (!closest) return null;
+
+    const inside = pts.length > 2 && isPointInCollider(pos, collider);
+    const dist = Math.sqrt(closestDistSq);
+    if (!inside && dist >= radius) return null;
+
+    let normal: Point;
+    if (dist > 0.0001) {
+        // Outside: away from the surface. Inside: towards the nearest surface.
+        const sign = inside ? -1 : 1;
+        normal = { x: ((pos.x - closest.x) / dist) * sign, y: ((pos.y - closest.y) / dist) * sign };
+    } else {
+        // Exactly on an edge: fall back to the edge's perpendicular.
+        const a = pts[closestEdge], b = pts[(closestEdge + 1) % pts.length];
+        const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+        normal = { x: (b.y - a.y) / len, y: -(b.x - a.x) / len };
+    }
+
+    pos.x = closest.x + normal.x * radius;
+    pos.y = closest.y + normal.y * radius;
+    return normal;
+}
+
+/**
+ * Sets a Verlet particle's velocity after a contact. `velocity` is measured before the
+ * positional correction. The part pointing into the surface is reflected by the material's
+ * restitution (0 removes it), and the slide along the surface loses the material's friction.
+ */
+export function applyContactVelocity(pos: Point, prevPos: Point, velocity: Point, normal: Point, material: SurfaceMaterial): void {
+    const vn = velocity.x * normal.x + velocity.y * normal.y;
+    if (vn >= 0) {
+        // Leave separating motion alone
+        prevPos.x = pos.x - velocity.x;
+        prevPos.y = pos.y - velocity.y;
+        return;
+    }
+    const slide = { x: (velocity.x - vn * normal.x) * (1 - material.friction), y: (velocity.y - vn * normal.y) * (1 - material.friction) };
+    prevPos.x = pos.x - (slide.x - vn * material.restitution * normal.x);
+    prevPos.y = pos.y - (slide.y - vn * material.restitution * normal.y);
+}
+
+/**
+ * Resolves a Verlet circle against every collider, in order. A `restitution` given here
+ * is the circle's own bounciness and replaces the colliders'.
+ */
+export function collideWithColliders(pos: Point, prevPos: Point, radius: number, colliders: Collider[], restitution?: number): void {
+    colliders.forEach(collider => {
+        const velocity = { x: pos.x - prevPos.x, y: pos.y - prevPos.y };
+        const normal = resolveCircleCollider(pos, radius, collider);
+        if (normal) applyContactVelocity(pos, prevPos, velocity, normal, { friction: collider.material.friction, restitution: restitution ?? collider.material.restitution });
+    });
+}
+
+/**
+ * Keeps a Verlet circle inside the canvas, treating the four edges as surfaces of `material`.
+ */
+export function collideWithBounds(pos: Point, prevPos: Point, radius: number, material: SurfaceMaterial): void {
+    const walls: { normal: Point; beyond: boolean; clamp: () => void }[] = [
+        { normal: { x: 0, y: -1 }, beyond: pos.y > H - radius, clamp: () => { pos.y = H - radius; } },
+        { normal: { x: 0, y: 1 }, beyond: pos.y < radius, clamp: () => { pos.y = radius; } },
+        { normal: { x: -1, y: 0 }, beyond: pos.x > W - radius, clamp: () => { pos.x = W - radius; } },
+        { normal: { x: 1, y: 0 }, beyond: pos.x < radius, clamp: () => { pos.x = radius; } },
+    ];
+    walls.forEach(wall => {
+        if (!wall.beyond) return;
+        const velocity = { x: pos.x - prevPos.x, y: pos.y - prevPos.y };
+        wall.clamp();
+        applyContactVelocity(pos, prevPos, velocity, wall.normal, material);
+    });
+}
+
+export const translateCollider = (collider: Collider, delta: Point): Collider => ({
+    ...collider,
+    points: collider.points.map(p => ({ x: p.x + delta.x, y: p.y + delta.y })),
+});
@@ -0,0 +1,100 @@
+import type { ForceField, ForceFieldKind, PhysicsWorld, Point } from './types';
+import { W, H } from './kinematics';
+
+// How quickly a unit mass is dragged up to the wind's speed, per second.
+const WIND_DRAG = 1.5;
+
+/**
+ * Returns a new force field of the given kind, placed at a sensible spot on the canvas.
+ */
+export function createForceFieldPreset(kind: ForceFieldKind): ForceField {
+    switch (kind) {
+        case 'wind':
+            return { kind, pos: { x: 80, y: H / 2 }, radius: 0, strength: 900, direction: 0, turbulence: 0.4, time: 0 };
+        case 'explosion':
+            return { kind, pos: { x: W / 2, y: H - 60 }, radius: 320, strength: 2500, direction: 0, turbulence: 0, time: 0.5 };
+        case 'attractor':
+            return { kind, pos: { x: W / 2, y: H / 4 }, radius: 400, strength: 4000, direction: 0, turbulence: 0, time: 0 };
+    }
+}
+
+/**
+ * 1 at the field's centre, falling to 0 at its radius. Fields with no radius reach everywhere.
+ */
+const falloff = (field: ForceField, pos: Point): number => {
+    if (field.radius <= 0) return 1;
+    const dist = Math.hypot(pos.x - field.pos.x, pos.y - field.pos.y);
+    return Math.max(0, 1 - dist / field.radius);
+};
+
+/**
+ * Queues an impulse on a named particle, e.g. `applyImpulse(world, 'head', { x: -800, y: 0 })`
+ * to punch the head to the left. It lands at the start of the next step.
+ */
+export function applyImpulse(world: PhysicsWorld, key: string, impulse: Point): void {
+    world.impulses.push({ key, impulse: { ...impulse } });
+}
+
+/**
+ * Applies queued impulses and every force field to the body and the balls for one
+ * integration of length `dt` that starts at `time`. Forces act on Verlet particles by
+ * shifting `prevPos`, so they become velocity in the next integration.
+ */
+export function applyForces(world: PhysicsWorld, time: number, dt: number): void {
+    const bodies = [
+        ...world.body.particles.filter(p => p.mass > 0),
+        ...world.targets,
+    ];
+    const kick = (p: { prevPos: Point }, dv: Point) => {
+        p.prevPos.x -= dv.x * dt;
+        p.prevPos.y -= dv.y * dt;
+    };
+
+    world.impulses.forEach(({ key, impulse }) => {
+        const index = world.body.particleMap.get(key);
+        const p = index !== undefined ? world.body.particles[index] : undefined;
+        if (!p || p.mass === 0) return;
+        kick(p, { x: impulse.x / p.mass, y: impulse.y / p.mass });
+    });
+    world.impulses = [];
+
+    world.forceFields.forEach(field => {
+        switch (field.kind) {
+            case 'wind':
+                bodies.forEach(p => {
+                    const reach = falloff(field, p.pos);
+                    if (reach === 0) return;
+                    // Each particle feels its own gust, so loose parts flutter.
+                    const gust = 1 + field.turbulence * (world.random() * 2 - 1);
+                    const angle = field.direction + field.turbulence * (world.random() - 0.5);
+                    const wind = { x: Math.cos(angle) * field.strength * gust, y: Math.sin(angle) * field.strength * gust };
+                    const velocity = { x: (p.pos.x - p.prevPos.x) / dt, y: (p.pos.y - p.prevPos.y) / dt };
+                    const drag = Math.min(1, (WIND_DRAG * reach * dt) / p.mass);
+                    kick(p, { x: (wind.x - velocity.x) * drag, y: (wind.y - velocity.y) * drag });
+                });
+                break;
+            case 'attractor':
+                bodies.forEach(p => {
+                    const dx = field.pos.x - p.pos.x;
+                    const dy = field.pos.y - p.pos.y;
+                    const dist = Math.hypot(dx, dy);
+                    if (dist < 1) return;
+                    const accel = field.strength * falloff(field, p.pos);
+                    kick(p, { x: (dx / dist) * accel * dt, y: (dy / dist) * accel * dt });
+                });
+                break;
+            case 'explosion':
+                // Goes off once, in the integration that spans its time.
+                if (field.time < time || field.time >= time + dt) break;
+                bodies.forEach(p => {
+                    const dx = p.pos.x - field.pos.x;
+                    const dy = p.pos.y - field.pos.y;
+                    const dist = Math.hypot(dx, dy);
+                    if (dist < 1) return;
+                    const speed = (field.strength * falloff(field, p.pos)) / p.mass;
+                    kick(p, { x: (dx / dist) * speed, y: (dy / dist) * speed });
+                });
+                break;
+        }
+    });
+}
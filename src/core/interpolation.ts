@@ -1,4 +1,6 @@
-import type { PoseData } from './types';
+import type { BoneScales, PoseData, PropAttachment, RigDefinition, RigPose } from './types';
+import { HUMANOID_RIG, getBoneScale } from './kinematics';
+import { getPoseAngle, setPoseAngle } from './rig';
 
 // Standard linear interpolation for positions
 const lerp = (a: number, b: number, t: number): number => a * (1 - t) + b * t;
@@ -14,30 +16,37 @@ const lerpAngle = (a: number, b: number, t: number): number => {
     return a + delta * t;
 };
 
-// This can recursively interpolate any nested object of numbers,
-// applying the correct interpolation method based on the property.
-function interpolateRecursive(a: any, b: any, t: number, path: string): any {
-    if (typeof a === 'number' && typeof b === 'number') {
-        // Use standard lerp only for offset properties, which are positions.
-        // All other numeric properties are angles and need special handling.
-        if (path.startsWith('offset.')) {
-            return lerp(a, b, t);
-        }
-        return lerpAngle(a, b, t);
+/**
+ * Blends two poses of the same rig: the offset in a straight line, every
+ * joint the rig declares along the shorter way round, the bone scales, and props
+ * that stay with the same bone. A prop changing hands, and draw layers, switch at the second keyframe.
+ */
+export function interpolatePoses<T extends RigPose = PoseData>(poseA: T, poseB: T, t: number, rig: RigDefinition = HUMANOID_RIG): T {
+    const result: T = JSON.parse(JSON.stringify(poseA));
+    result.offset = {
+        x: lerp(poseA.offset.x, poseB.offset.x, t),
+        y: lerp(poseA.offset.y, poseB.offset.y, t),
+    };
+    rig.joints.forEach(joint => {
+        setPoseAngle(result, joint.key, lerpAngle(getPoseAngle(poseA, joint.key), getPoseAngle(poseB, joint.key), t));
+    });
+    // Squash and stretch blends linearly; a bone only one side scales counts as 1 on the other.
+    if (poseA.scale || poseB.scale) {
+        const scale: BoneScales = {};
+        new Set([...Object.keys(poseA.scale ?? {}), ...Object.keys(poseB.scale ?? {})]).forEach(key => {
+            const a = getBoneScale(poseA, key), b = getBoneScale(poseB, key);
+            scale[key] = { length: lerp(a.length, b.length, t), width: lerp(a.width, b.width, t) };
+        });
+        result.scale = scale;
     }
-    if (typeof a === 'object' && a !== null && b !== null) {
-        const result: { [key:string]: any } = {};
-        for (const key in a) {
-            if (key in b) {
-                // Pass down the property path to know the context
-                result[key] = interpolateRecursive(a[key], b[key], t, `${path}${key}.`);
-            }
-        }
-        return result;
-    }
-    return b; // Fallback for non-interpolatable types
+    Object.entries(poseA.props ?? {}).forEach(([id, a]: [string, PropAttachment]) => {
+        const b: PropAttachment | undefined = poseB.props?.[id];
+        if (!b || b.bone !== a.bone) return;
+        result.props[id] = {
+            bone: a.bone,
+            offset: { x: lerp(a.offset.x, b.offset.x, t), y: lerp(a.offset.y, b.offset.y, t) },
+            rotation: lerpAngle(a.rotation, b.rotation, t),
+        };
+    });
+    return result;
 }
-
-export function interpolatePoses(poseA: PoseData, poseB: PoseData, t: number): PoseData {
-    return interpolateRecursive(poseA, poseB, t, "") as PoseData;
-}
\ No newline at end of file
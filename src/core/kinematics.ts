@@ -1,4 +1,5 @@
-import type { PoseData, Point, BoneSegment, Skeleton } from './types';
+import type { PoseData, Point, BoneSegment, BoneScale, BoneScales, Skeleton, JointLimits, RigDefinition, RigJoint, RigPose, RigShape } from './types';
+import { getRigTables, getRigJoint, getPoseAngle, setPoseAngle, createRigPose } from './rig';
 
 // --- Constants ---
 export const W = 800;
@@ -14,7 +15,10 @@ export const HEAD_SIZE = HEAD_SIZE_UNIT * 0.8; // Visual size of the head shape
 // Adjusted proportions to match target image
 export const TORSO_HEIGHT = 150; 
 export const WAIST_HEIGHT = 75;
-const NECK_LENGTH = 0; // Neck is visually integrated but exists in hierarchy
+// The trunk above the waist bends in two: the abdomen, and the chest (`torso`) the arms hang from.
+const ABDOMEN_HEIGHT = 60;
+const CHEST_HEIGHT = TORSO_HEIGHT - ABDOMEN_HEIGHT;
+const NECK_LENGTH = 18;
 
 // Limb length constants, derived from the base proportions
 export const L_ARM = LIMB_LENGTH / 2;     // 105px
@@ -24,62 +28,178 @@ export const L_THIGH = 125;
 export const L_SHIN = 125;
 export const L_FOOT = HEAD_SIZE_UNIT * 0.4;   // 42px
 
-// --- Hierarchy Definition ---
-export const hierarchy: { [key: string]: { parent: string | null; children: string[] } } = {
-  'root': { parent: null, children: ['torso', 'waist'] },
-  'torso': { parent: 'root', children: ['head', 'left.shoulder', 'right.shoulder'] },
-  'waist': { parent: 'root', children: ['left.hip', 'right.hip'] },
-  'head': { parent: 'torso', children: [] },
-  'left.shoulder': { parent: 'torso', children: ['left.elbow'] },
-  'left.elbow': { parent: 'left.shoulder', children: ['left.hand'] },
-  'left.hand': { parent: 'left.elbow', children: [] },
-  'right.shoulder': { parent: 'torso', children: ['right.elbow'] },
-  'right.elbow': { parent: 'right.shoulder', children: ['right.hand'] },
-  'right.hand': { parent: 'right.elbow', children: [] },
-  'left.hip': { parent: 'waist', children: ['left.knee'] },
-  'left.knee': { parent: 'left.hip', children: ['left.foot'] },
-  'left.foot': { parent: 'left.knee', children: [] },
-  'right.hip': { parent: 'waist', children: ['right.knee'] },
-  'right.knee': { parent: 'right.hip', children: ['right.foot'] },
-  'right.foot': { parent: 'right.knee', children: [] }
+// --- Humanoid Rig ---
+// Mass-based palette: primary masses are darkest, end effectors lightest.
+const PALETTE = {
+  PRIMARY_MASS: '#1A1A1A',  // Abdomen / Chest / Thighs / Upper Arms
+  PIVOT: '#4D4D4D',         // Waist / Neck / Head
+  END_EFFECTOR: '#808080',  // Forearms / Shins / Hands / Feet
+};
+
+const deg = (d: number) => (d * Math.PI) / 180;
+
+// Generic diamond shape for limb segments
+const diamond = (length: number, width: number): RigShape => ({
+  kind: 'polygon',
+  points: [{ x: 0, y: 0 }, { x: length / 2, y: -width / 2 }, { x: length, y: 0 }, { x: length / 2, y: width / 2 }],
+});
+
+// A triangle with its base across the bone's start and its tip at the end
+const spike = (length: number, width: number): RigShape => ({
+  kind: 'polygon',
+  points: [{ x: 0, y: -width / 2 }, { x: length, y: 0 }, { x: 0, y: width / 2 }],
+});
+
+// Joint limits are in the same units as PoseData. Positive elbow and knee angles
+// are the natural bend direction (the one `solveIK` produces). Shoulders are left free.
+const humanoidArm = (side: 'left' | 'right'): RigJoint[] => {
+  const sign = side === 'right' ? 1 : -1;
+  return [
+    { key: `${side}.shoulder`, parent: 'torso', attach: { x: 0, y: 48 * sign }, restAngle: sign * Math.PI / 2, defaultAngle: -sign * Math.PI / 2,
+      length: L_ARM, width: 36, pivot: 0, mass: 3, color: PALETTE.PRIMARY_MASS, shape: diamond(L_ARM, 36) },
+    { key: `${side}.elbow`, parent: `${side}.shoulder`, attach: { x: 0, y: 0 }, restAngle: 0, defaultAngle: 0,
+      length: L_FOREARM, width: 28, pivot: 0, mass: 0.5, limit: { min: deg(-5), max: deg(155) }, color: PALETTE.END_EFFECTOR, shape: diamond(L_FOREARM, 28) },
+    { key: `${side}.hand`, parent: `${side}.elbow`, attach: { x: 0, y: 0 }, restAngle: 0, defaultAngle: 0,
+      length: L_HAND, width: 16, pivot: 0, mass: 0.5, limit: { min: deg(-80), max: deg(80) }, color: PALETTE.END_EFFECTOR, shape: spike(L_HAND, 10) },
+  ];
+};
+
+const humanoidLeg = (side: 'left' | 'right'): RigJoint[] => {
+  const sign = side === 'right' ? 1 : -1;
+  return [
+    { key: `${side}.hip`, parent: 'waist', attach: { x: 0, y: -29 * sign }, restAngle: 0, defaultAngle: 0,
+      length: L_THIGH, width: 44, pivot: 0, mass: 3, limit: { min: deg(-120), max: deg(60) }, color: PALETTE.PRIMARY_MASS, shape: diamond(L_THIGH, 44) },
+    { key: `${side}.knee`, parent: `${side}.hip`, attach: { x: 0, y: 0 }, restAngle: 0, defaultAngle: 0,
+      length: L_SHIN, width: 32, pivot: 0, mass: 0.5, limit: { min: deg(-5), max: deg(155) }, color: PALETTE.END_EFFECTOR, shape: diamond(L_SHIN, 32) },
+    { key: `${side}.foot`, parent: `${side}.knee`, attach: { x: 0, y: 0 }, restAngle: 0, defaultAngle: 0,
+      length: L_FOOT, width: 18, pivot: 0, mass: 0.5, limit: { min: deg(-110), max: deg(40) }, color: PALETTE.END_EFFECTOR, shape: spike(L_FOOT, 16) },
+  ];
 };
 
+// Half the trunk's width at a height up from the waist; the abdomen and chest together
+// make one triangle, narrowest at the waist and widest across the shoulders.
+const trunkHalfWidth = (height: number) => (50 * height) / TORSO_HEIGHT;
+
+/**
+ * The mannequin. Rest angles make the T-Pose when all pose angles are zero; the
+ * default pose raises the arms overhead. The abdomen turns the whole upper body; the chest,
+ * neck and head bend on top of it. The head's handle sits inside the skull rather
+ * than at the end of its (nominal) bone.
+ */
+export const HUMANOID_RIG: RigDefinition = {
+  name: 'humanoid',
+  rootMass: 3,
+  joints: [
+    { key: 'abdomen', parent: null, attach: { x: 0, y: 0 }, restAngle: -Math.PI / 2, defaultAngle: 0,
+      length: ABDOMEN_HEIGHT, width: 2 * trunkHalfWidth(ABDOMEN_HEIGHT), pivot: ABDOMEN_HEIGHT, mass: 1.5, color: PALETTE.PRIMARY_MASS,
+      shape: { kind: 'polygon', points: [{ x: 0, y: 0 }, { x: ABDOMEN_HEIGHT, y: -trunkHalfWidth(ABDOMEN_HEIGHT) }, { x: ABDOMEN_HEIGHT, y: trunkHalfWidth(ABDOMEN_HEIGHT) }] } },
+    { key: 'torso', parent: 'abdomen', attach: { x: 0, y: 0 }, restAngle: 0, defaultAngle: 0,
+      length: CHEST_HEIGHT, width: 100, pivot: CHEST_HEIGHT, mass: 1.5, limit: { min: deg(-35), max: deg(35) }, color: PALETTE.PRIMARY_MASS,
+      shape: { kind: 'polygon', points: [
+        { x: 0, y: -trunkHalfWidth(ABDOMEN_HEIGHT) }, { x: CHEST_HEIGHT, y: -50 }, { x: CHEST_HEIGHT, y: 50 }, { x: 0, y: trunkHalfWidth(ABDOMEN_HEIGHT) },
+      ] } },
+    { key: 'waist', parent: null, attach: { x: 0, y: 0 }, restAngle: Math.PI / 2, defaultAngle: 0,
+      length: WAIST_HEIGHT, width: 60, pivot: WAIST_HEIGHT, mass: 1.5, color: PALETTE.PIVOT, shape: spike(WAIST_HEIGHT, 58) },
+    { key: 'neck', parent: 'torso', attach: { x: 0, y: 0 }, restAngle: 0, defaultAngle: 0,
+      length: NECK_LENGTH, width: 20, pivot: NECK_LENGTH, mass: 0.5, limit: { min: deg(-40), max: deg(40) }, color: PALETTE.PIVOT,
+      shape: { kind: 'polygon', points: [{ x: 0, y: -10 }, { x: NECK_LENGTH, y: -8 }, { x: NECK_LENGTH, y: 8 }, { x: 0, y: 10 }] } },
+    { key: 'head', parent: 'neck', attach: { x: 0, y: 0 }, restAngle: 0, defaultAngle: 0,
+      length: 1, width: HEAD_SIZE, pivot: HEAD_SIZE / 2.5, mass: 1, limit: { min: deg(-50), max: deg(50) }, color: PALETTE.PIVOT,
+      shape: { kind: 'ellipse', center: { x: 32, y: 0 }, radius: { x: 32, y: 19 } } },
+    ...humanoidArm('left'),
+    ...humanoidArm('right'),
+    ...humanoidLeg('left'),
+    ...humanoidLeg('right'),
+  ],
+  // Back to front: far limbs, then the near ones, then the trunk and head over them.
+  drawOrder: [
+    'right.hip', 'right.knee', 'right.foot',
+    'left.hip', 'left.knee', 'left.foot',
+    'waist',
+    'right.shoulder', 'right.elbow', 'right.hand',
+    'left.shoulder', 'left.elbow', 'left.hand',
+    'abdomen', 'torso',
+    'neck', 'head',
+  ],
+};
+
+// Gives both sides' bones the same scale, e.g. { shoulder: ... } for left and right shoulders.
+const bothSides = (parts: { [part: string]: BoneScale }): BoneScales => Object.fromEntries(
+  Object.entries(parts).flatMap(([part, scale]) => [[`left.${part}`, scale], [`right.${part}`, scale]])
+);
+
+// Body types for the mannequin, as bone scales on top of its 8-head proportions.
+export const PROPORTION_PRESETS: { [name: string]: BoneScales } = {
+  'normal': {},
+  'heroic': {
+    abdomen: { length: 1.05, width: 1.3 },
+    torso: { length: 1.05, width: 1.3 },
+    neck: { length: 1, width: 1.3 },
+    waist: { length: 1, width: 0.9 },
+    head: { length: 0.85, width: 0.85 },
+    ...bothSides({
+      shoulder: { length: 1.08, width: 1.25 }, elbow: { length: 1.08, width: 1.2 },
+      hip: { length: 1.15, width: 1.1 }, knee: { length: 1.15, width: 1.05 },
+    }),
+  },
+  'chibi': {
+    abdomen: { length: 0.6, width: 0.9 },
+    torso: { length: 0.6, width: 0.9 },
+    neck: { length: 0.4, width: 1 },
+    waist: { length: 0.7, width: 0.9 },
+    head: { length: 1.8, width: 1.8 },
+    ...bothSides({
+      shoulder: { length: 0.5, width: 0.9 }, elbow: { length: 0.5, width: 0.9 }, hand: { length: 0.8, width: 1.2 },
+      hip: { length: 0.45, width: 0.9 }, knee: { length: 0.45, width: 0.9 }, foot: { length: 0.8, width: 1.2 },
+    }),
+  },
+  'child': {
+    abdomen: { length: 0.75, width: 0.8 },
+    torso: { length: 0.75, width: 0.8 },
+    neck: { length: 0.7, width: 0.8 },
+    waist: { length: 0.8, width: 0.85 },
+    head: { length: 1.3, width: 1.3 },
+    ...bothSides({
+      shoulder: { length: 0.72, width: 0.8 }, elbow: { length: 0.72, width: 0.8 }, hand: { length: 0.8, width: 0.9 },
+      hip: { length: 0.7, width: 0.85 }, knee: { length: 0.7, width: 0.85 }, foot: { length: 0.8, width: 0.9 },
+    }),
+  },
+};
+
+// --- Hierarchy Definition ---
+export const hierarchy = getRigTables(HUMANOID_RIG).hierarchy;
+
 /**
  * Defines the base rotation for each part to achieve the T-Pose when all
  * pose data angles are zero. This establishes a "True Zero" identity for the rig,
  * unifying the joint origins for kinematics, IK, and physics.
  */
-export const BASE_ANGLES: { [key: string]: number } = {
-  // Core Body
-  'torso': -Math.PI / 2,         // Points straight up from root
-  'waist': Math.PI / 2,          // Points straight down from root
-  'head': 0,                     // Aligns with torso
-  // Left Arm (from T-Pose)
-  'left.shoulder': -Math.PI / 2, // Extends left from torso
-  'left.elbow': 0,               // Aligns with shoulder
-  'left.hand': 0,                // Aligns with elbow
-  // Right Arm (from T-Pose)
-  'right.shoulder': Math.PI / 2, // Extends right from torso
-  'right.elbow': 0,              // Aligns with shoulder
-  'right.hand': 0,               // Aligns with elbow
-  // Left Leg (from T-Pose)
-  'left.hip': 0,                 // Extends down from waist
-  'left.knee': 0,                // Aligns with hip
-  'left.foot': 0,                // Aligns with knee
-  // Right Leg (from T-Pose)
-  'right.hip': 0,                // Extends down from waist
-  'right.knee': 0,               // Aligns with hip
-  'right.foot': 0,               // Aligns with knee
-};
+export const BASE_ANGLES: { [key: string]: number } = getRigTables(HUMANOID_RIG).restAngles;
 
 
-// --- Joint Constraints (currently unused, allowing free rotation) ---
-export const jointConstraints: { [key: string]: { min: number; max: number } } = {};
+// --- Joint Constraints ---
+// Allowed local angle ranges, in the same units as PoseData; a missing entry means unrestricted rotation.
+export const jointConstraints: JointLimits = getRigTables(HUMANOID_RIG).limits;
 export function clampAngle(angle: number, min: number, max: number): number {
   let normAngle = angle;
   while (normAngle > Math.PI) normAngle -= 2 * Math.PI;
   while (normAngle < -Math.PI) normAngle += 2 * Math.PI;
-  return Math.max(min, Math.min(max, normAngle));
+  if (normAngle >= min && normAngle <= max) return normAngle;
+  // Settle on whichever bound is closer around the circle, so a joint pushed
+  // past one end of its range doesn't flip over to the other.
+  const gap = (bound: number) => {
+    const d = Math.abs(normAngle - bound) % (2 * Math.PI);
+    return Math.min(d, 2 * Math.PI - d);
+  };
+  return gap(min) <= gap(max) ? min : max;
+}
+
+/**
+ * Clamps a pose angle to the joint's range in `limits`; joints without one pass through unchanged.
+ */
+export function clampToLimits(key: string, angle: number, limits: JointLimits): number {
+  const range = limits[key];
+  return range ? clampAngle(angle, range.min, range.max) : angle;
 }
 
 /**
@@ -87,28 +207,16 @@ export function clampAngle(angle: number, min: number, max: number): number {
  * This state corresponds to the "True Zero" T-Pose identity.
  */
 export function getDefaultPose(): PoseData {
-  return {
-    offset: { x: 0, y: 0 },
-    torso: 0,
-    waist: 0,
-    head: 0,
-    left: { 
-      shoulder: Math.PI / 2, 
-      elbow: 0, 
-      hand: 0, 
-      hip: 0, 
-      knee: 0, 
-      foot: 0 
-    },
-    right: { 
-      shoulder: -Math.PI / 2, 
-      elbow: 0, 
-      hand: 0, 
-      hip: 0, 
-      knee: 0, 
-      foot: 0 
-    }
-  };
+  return createRigPose(HUMANOID_RIG) as PoseData;
+}
+
+const UNIT_SCALE: BoneScale = { length: 1, width: 1 };
+
+/**
+ * A bone's squash and stretch in the given pose; 1 by 1 when the pose leaves it alone.
+ */
+export function getBoneScale(pose: RigPose, key: string): BoneScale {
+  return pose.scale?.[key] ?? UNIT_SCALE;
 }
 
 const getEndPoint = (start: Point, angle: number, length: number): Point => ({
@@ -116,105 +224,166 @@ const getEndPoint = (start: Point, angle: number, length: number): Point => ({
   y: start.y + Math.sin(angle) * length
 });
 
-export function computeSkeleton(pose: PoseData): Skeleton {
+/**
+ * Forward kinematics for any rig: walks the joints parents first, placing each bone
+ * at its attach point on the parent and turning it by rest angle plus pose angle.
+ */
+export function computeRigSkeleton(rig: RigDefinition, pose: RigPose): Skeleton {
     const jointCache: { [key: string]: Point } = {};
     const boneCache: BoneSegment[] = [];
-    const worldAngles: { [key: string]: number } = { root: 0 }; 
+    // World angle, tip and scale of every placed bone, for its children to hang from.
+    const frames: { [key: string]: { end: Point; angle: number; scale: BoneScale } } = {};
 
     const rootPos = { x: W / 2 + pose.offset.x, y: H / 2 + pose.offset.y };
-
-    const storeJoint = (key: string, p: Point) => jointCache[key] = p;
-    const storeBone = (key: string, start: Point, end: Point, width: number, angle: number) => {
-        boneCache.push({ key, start, end, width, angle, shape: 'custom' });
-    };
-
-    // --- Tier 1: Core Body attached to Root ---
     jointCache['root'] = rootPos;
-
-    // Torso
-    worldAngles['torso'] = (BASE_ANGLES['torso'] || 0) + pose.torso;
-    const neckPos = getEndPoint(rootPos, worldAngles['torso'], TORSO_HEIGHT);
-    storeJoint('torso', neckPos);
-    storeBone('torso', rootPos, neckPos, 100, worldAngles['torso']);
-
-    // Waist
-    worldAngles['waist'] = (BASE_ANGLES['waist'] || 0) + pose.waist;
-    const hipBasePos = getEndPoint(rootPos, worldAngles['waist'], WAIST_HEIGHT);
-    storeJoint('waist', hipBasePos);
-    storeBone('waist', rootPos, hipBasePos, 60, worldAngles['waist']);
-
-    // --- Tier 2: Head and Shoulders attached to Torso ---
-    const headParentAngle = worldAngles['torso'];
-    worldAngles['head'] = headParentAngle + (BASE_ANGLES['head'] || 0) + pose.head;
-    const headVisualEnd = getEndPoint(neckPos, worldAngles['head'], 1);
-    const headPhysicsCenter = getEndPoint(neckPos, worldAngles['head'], HEAD_SIZE / 2.5);
-    storeBone('head', neckPos, headVisualEnd, HEAD_SIZE, worldAngles['head']);
-    storeJoint('head', headPhysicsCenter);
-
-    (['left', 'right'] as const).forEach(side => {
-        const shoulderWidth = 48;
-        const perpTorsoAngle = worldAngles['torso'] + Math.PI / 2;
-        const shoulderXOffset = side === 'right' ? shoulderWidth : -shoulderWidth;
-        const shoulderPos = getEndPoint(neckPos, perpTorsoAngle, shoulderXOffset);
-        const shoulderKey = `${side}.shoulder`;
-        storeJoint(shoulderKey, shoulderPos);
-
-        worldAngles[shoulderKey] = worldAngles['torso'] + (BASE_ANGLES[shoulderKey] || 0) + pose[side].shoulder;
-        const elbowPos = getEndPoint(shoulderPos, worldAngles[shoulderKey], L_ARM);
-        storeBone(shoulderKey, shoulderPos, elbowPos, 36, worldAngles[shoulderKey]);
-
-        const elbowKey = `${side}.elbow`;
-        storeJoint(elbowKey, elbowPos);
-        worldAngles[elbowKey] = worldAngles[shoulderKey] + (BASE_ANGLES[elbowKey] || 0) + pose[side].elbow;
-        const handPos = getEndPoint(elbowPos, worldAngles[elbowKey], L_FOREARM);
-        storeBone(elbowKey, elbowPos, handPos, 28, worldAngles[elbowKey]);
-
-        const handKey = `${side}.hand`;
-        storeJoint(handKey, handPos);
-        worldAngles[handKey] = worldAngles[elbowKey] + (BASE_ANGLES[handKey] || 0) + pose[side].hand;
-        const handEnd = getEndPoint(handPos, worldAngles[handKey], L_HAND);
-        storeBone(handKey, handPos, handEnd, 16, worldAngles[handKey]);
-    });
-
-    // --- Tier 3: Legs attached to Waist ---
-    (['left', 'right'] as const).forEach(side => {
-        const hipWidth = 29;
-        const perpWaistAngle = worldAngles['waist'] - Math.PI / 2;
-        const hipXOffset = side === 'right' ? hipWidth : -hipWidth;
-        const hipPos = getEndPoint(hipBasePos, perpWaistAngle, hipXOffset);
-        const hipKey = `${side}.hip`;
-        storeJoint(hipKey, hipPos);
-
-        worldAngles[hipKey] = worldAngles['waist'] + (BASE_ANGLES[hipKey] || 0) + pose[side].hip;
-        const kneePos = getEndPoint(hipPos, worldAngles[hipKey], L_THIGH);
-        storeBone(hipKey, hipPos, kneePos, 44, worldAngles[hipKey]);
-        
-        const kneeKey = `${side}.knee`;
-        storeJoint(kneeKey, kneePos);
-        worldAngles[kneeKey] = worldAngles[hipKey] + (BASE_ANGLES[kneeKey] || 0) + pose[side].knee;
-        const footPos = getEndPoint(kneePos, worldAngles[kneeKey], L_SHIN);
-        storeBone(kneeKey, kneePos, footPos, 32, worldAngles[kneeKey]);
-
-        const footKey = `${side}.foot`;
-        storeJoint(footKey, footPos);
-        worldAngles[footKey] = worldAngles[kneeKey] + (BASE_ANGLES[footKey] || 0) + pose[side].foot;
-        const footEnd = getEndPoint(footPos, worldAngles[footKey], L_FOOT);
-        storeBone(footKey, footPos, footEnd, 18, worldAngles[footKey]);
+    const rootFrame = { end: rootPos, angle: 0, scale: UNIT_SCALE };
+
+    rig.joints.forEach(joint => {
+        const parent = joint.parent ? frames[joint.parent] : rootFrame;
+        if (!parent) return;
+        const scale = getBoneScale(pose, joint.key);
+
+        // Attach points stretch with the parent: wider shoulders on a wider torso.
+        const along = getEndPoint(parent.end, parent.angle, joint.attach.x * parent.scale.length);
+        const start = getEndPoint(along, parent.angle + Math.PI / 2, joint.attach.y * parent.scale.width);
+        const angle = parent.angle + joint.restAngle + getPoseAngle(pose, joint.key);
+        const end = getEndPoint(start, angle, joint.length * scale.length);
+
+        jointCache[joint.key] = joint.pivot === joint.length ? end : getEndPoint(start, angle, joint.pivot * scale.length);
+        boneCache.push({
+            key: joint.key, start, end, width: joint.width * scale.width, angle, shape: 'custom',
+            draw: joint.shape, color: joint.color, scale: { x: scale.length, y: scale.width },
+        });
+        frames[joint.key] = { end, angle, scale };
     });
 
     return { joints: jointCache, bones: boneCache };
 }
 
+export function computeSkeleton(pose: PoseData): Skeleton {
+    return computeRigSkeleton(HUMANOID_RIG, pose);
+}
+
 // --- Inverse Kinematics (IK) & Helpers ---
-export const getParentWorldAngle = (key: string, pose: PoseData): number | null => {
-    const parentKey = hierarchy[key]?.parent;
+export const getParentWorldAngle = (key: string, pose: RigPose, rig: RigDefinition = HUMANOID_RIG): number | null => {
+    const parentKey = getRigTables(rig).hierarchy[key]?.parent;
     if (!parentKey) return 0;
     
-    const skeleton = computeSkeleton(pose);
+    const skeleton = computeRigSkeleton(rig, pose);
     const parentBone = skeleton.bones.find(b => b.key === parentKey);
     return parentBone?.angle ?? 0;
 }
 
+/**
+ * Where a joint turns and the world angle its pose angle counts from (the parent bone's
+ * angle plus the joint's rest angle). Null when the skeleton has no such bone.
+ */
+export function getJointFrame(skeleton: Skeleton, key: string, rig: RigDefinition = HUMANOID_RIG): { pivot: Point; zeroAngle: number } | null {
+    const joint = getRigJoint(rig, key);
+    const bone = skeleton.bones.find(b => b.key === key);
+    if (!joint || !bone) return null;
+    const parentAngle = joint.parent ? skeleton.bones.find(b => b.key === joint.parent)?.angle ?? 0 : 0;
+    return { pivot: bone.start, zeroAngle: parentAngle + joint.restAngle };
+}
+
+// The two bones a limb end hangs from, e.g. the shoulder and elbow above `left.hand`.
+const getLimb = (rig: RigDefinition, endKey: string): [RigJoint, RigJoint] | null => {
+    const lower = getRigJoint(rig, getRigJoint(rig, endKey)?.parent ?? '');
+    const upper = lower?.parent ? getRigJoint(rig, lower.parent) : undefined;
+    return upper && lower ? [upper, lower] : null;
+};
+
+/**
+ * The rig's trunk: the joints reached from the root without passing a bone hung off the side of
+ * its parent (a shoulder, a hip). Every other joint belongs to a limb.
+ */
+export function getTrunkJoints(rig: RigDefinition = HUMANOID_RIG): string[] {
+    const trunk: string[] = [];
+    rig.joints.forEach(joint => {
+        const onParent = joint.attach.x === 0 && joint.attach.y === 0;
+        if (onParent && (!joint.parent || trunk.includes(joint.parent))) trunk.push(joint.key);
+    });
+    return trunk;
+}
+
+/**
+ * The joints a limb is pulled by (hands, feet): limb joints with nothing hanging from them and
+ * two bones above them to bend.
+ */
+export function getLimbEnds(rig: RigDefinition = HUMANOID_RIG): string[] {
+    const trunk = getTrunkJoints(rig);
+    const { hierarchy } = getRigTables(rig);
+    return rig.joints
+        .filter(joint => !trunk.includes(joint.key) && hierarchy[joint.key].children.length === 0 && getLimb(rig, joint.key))
+        .map(joint => joint.key);
+}
+
+/**
+ * The joints that bend to bring `key` somewhere, from the root up: e.g. the abdomen, chest and
+ * neck below the head.
+ */
+export function getChainTo(key: string, rig: RigDefinition = HUMANOID_RIG): string[] {
+    const { hierarchy } = getRigTables(rig);
+    const chain: string[] = [];
+    for (let parent = hierarchy[key]?.parent; parent && parent !== 'root'; parent = hierarchy[parent]?.parent) chain.unshift(parent);
+    return chain;
+}
+
+// A bone's length after the pose's squash and stretch.
+const getScaledLength = (pose: RigPose, joint: RigJoint): number => joint.length * getBoneScale(pose, joint.key).length;
+
+/**
+ * How far the limb ending at `endKey` reaches from its root joint when straight.
+ */
+export function getLimbReach(pose: RigPose, endKey: string, rig: RigDefinition = HUMANOID_RIG): number {
+    const limb = getLimb(rig, endKey);
+    return limb ? getScaledLength(pose, limb[0]) + getScaledLength(pose, limb[1]) : 0;
+}
+
+/**
+ * Bends the two bones above `endKey` so that joint lands on `target`, writing the angles into `pose`.
+ * Angles are clamped to `limits`, so the limb may stop short of the target.
+ * Returns false if the rig has no such limb or the target sits on the limb's root.
+ */
+export function solveLimbIK(pose: RigPose, endKey: string, target: Point, limits: JointLimits = {}, rig: RigDefinition = HUMANOID_RIG): boolean {
+    const limb = getLimb(rig, endKey);
+    if (!limb) return false;
+    const [upper, lower] = limb;
+    const skeleton = computeRigSkeleton(rig, pose);
+    const upperBone = skeleton.bones.find(b => b.key === upper.key);
+    if (!upperBone) return false;
+
+    const result = solveIK(upperBone.start, target, getScaledLength(pose, upper), getScaledLength(pose, lower));
+    if (!result) return false;
+    const parentAngle = skeleton.bones.find(b => b.key === upper.parent)?.angle ?? 0;
+    setPoseAngle(pose, upper.key, clampToLimits(upper.key, result.angle1 - parentAngle - upper.restAngle, limits));
+    setPoseAngle(pose, lower.key, clampToLimits(lower.key, result.angle2 - lower.restAngle, limits));
+    return true;
+}
+
+const CHAIN_IK_ITERATIONS = 16;
+
+/**
+ * Bends a chain of joints (e.g. `getChainTo('head')`, the spine) so the `endKey` joint at its tip moves toward
+ * `target`, writing the angles into `pose`. Cyclic coordinate descent: each joint in turn, tip
+ * first, aims the tip at the target within its limits, so the bend spreads along the chain.
+ */
+export function solveChainIK(pose: RigPose, chain: string[], endKey: string, target: Point, limits: JointLimits = {}, rig: RigDefinition = HUMANOID_RIG): void {
+    for (let i = 0; i < CHAIN_IK_ITERATIONS; i++) {
+        for (let j = chain.length - 1; j >= 0; j--) {
+            const key = chain[j];
+            const skeleton = computeRigSkeleton(rig, pose);
+            const frame = getJointFrame(skeleton, key, rig);
+            const tip = skeleton.joints[endKey];
+            if (!frame || !tip) continue;
+            const turn = Math.atan2(target.y - frame.pivot.y, target.x - frame.pivot.x) - Math.atan2(tip.y - frame.pivot.y, tip.x - frame.pivot.x);
+            // Take the short way round, so free joints don't wind up past a full turn.
+            const shortTurn = Math.atan2(Math.sin(turn), Math.cos(turn));
+            setPoseAngle(pose, key, clampToLimits(key, getPoseAngle(pose, key) + shortTurn, limits));
+        }
+    }
+}
+
 export const solveIK = (rootPos: Point, targetPos: Point, l1: number, l2: number): { angle1: number, angle2: number } | null => {
     let dx = targetPos.x - rootPos.x;
     let dy = targetPos.y - rootPos.y;
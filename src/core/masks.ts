@@ -0,0 +1,74 @@
+import type { BoneScales, PoseData, RigDefinition, RigPose } from './types';
+import { HUMANOID_RIG } from './kinematics';
+import { getPoseAngle, setPoseAngle } from './rig';
+import { interpolatePoses } from './interpolation';
+
+// A set of joint keys, plus 'root' for where the figure stands (the pose offset).
+export type BodyMask = string[];
+
+export const MASK_ROOT = 'root';
+
+const arm = (side: string): BodyMask => [`${side}.shoulder`, `${side}.elbow`, `${side}.hand`];
+const leg = (side: string): BodyMask => [`${side}.hip`, `${side}.knee`, `${side}.foot`];
+const TRUNK: BodyMask = ['abdomen', 'torso', 'neck', 'head'];
+
+export const BODY_MASKS: { [name: string]: BodyMask } = {
+    'full body': [MASK_ROOT, ...HUMANOID_RIG.joints.map(joint => joint.key)],
+    'upper body': [...TRUNK, ...arm('left'), ...arm('right')],
+    'lower body': [MASK_ROOT, 'waist', ...leg('left'), ...leg('right')],
+    'head': ['neck', 'head'],
+    'arms': [...arm('left'), ...arm('right')],
+    'left arm': arm('left'),
+    'right arm': arm('right'),
+    'legs': [...leg('left'), ...leg('right')],
+    'left leg': leg('left'),
+    'right leg': leg('right'),
+};
+
+/**
+ * The name of the preset with exactly these joints, or null for a custom mask.
+ */
+export function getMaskName(mask: BodyMask): string | null {
+    const joints = new Set(mask);
+    const match = Object.entries(BODY_MASKS).find(([, preset]) => preset.length === joints.size && preset.every(key => joints.has(key)));
+    return match ? match[0] : null;
+}
+
+/**
+ * Moves the masked parts of `pose` `t` of the way toward `source`, leaving the rest as it is:
+ * t = 1 pastes them over, t = 0 changes nothing. Bone scales and draw layers go with their
+ * joints (layers only at t = 1), and a keyframed prop goes along when `source` has it held by
+ * a masked bone ('root' for set down).
+ */
+export function applyPoseMask<T extends RigPose = PoseData>(pose: T, source: T, mask: BodyMask, t: number = 1, rig: RigDefinition = HUMANOID_RIG): T {
+    // Pasting copies exactly rather than going round the angles the short way.
+    const blended = t === 1 ? source : interpolatePoses(pose, source, t, rig);
+    const result: T = JSON.parse(JSON.stringify(pose));
+    const joints = new Set(mask);
+    if (joints.has(MASK_ROOT)) result.offset = blended.offset;
+
+    rig.joints.filter(joint => joints.has(joint.key)).forEach(joint => {
+        setPoseAngle(result, joint.key, getPoseAngle(blended, joint.key));
+        const scale = blended.scale?.[joint.key];
+        if (scale) {
+            result.scale = { ...result.scale, [joint.key]: scale };
+        } else if (result.scale?.[joint.key]) {
+            const { [joint.key]: _, ...rest }: BoneScales = result.scale;
+            result.scale = rest;
+        }
+        const layer = blended.layers?.[joint.key];
+        if (layer !== undefined) {
+            (result as RigPose).layers = { ...result.layers, [joint.key]: layer };
+        } else if (result.layers?.[joint.key] !== undefined) {
+            const { [joint.key]: _, ...rest } = result.layers;
+            (result as RigPose).layers = rest;
+        }
+    });
+
+    const props: PoseData['props'] = blended.props;
+    Object.entries(props ?? {}).forEach(([id, attachment]) => {
+        if (!joints.has(attachment.bone ?? MASK_ROOT)) return;
+        (result as RigPose).props = { ...(result as RigPose).props, [id]: attachment };
+    });
+    return result;
+}
@@ -0,0 +1,100 @@
+import type { BoneScales, PoseData, PropAttachment, RigDefinition, RigPose } from './types';
+import { HUMANOID_RIG, W } from './kinematics';
+import { getRigJoint, getPoseAngle, setPoseAngle } from './rig';
+
+export type Side = 'left' | 'right';
+
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+/**
+ * The joint on the other side of the body: `left.knee` for `right.knee`. Joints down the
+ * middle (torso, head, ...) are their own mirror.
+ */
+export function getMirrorKey(key: string): string {
+    if (key.startsWith('left.')) return `right.${key.slice(5)}`;
+    if (key.startsWith('right.')) return `left.${key.slice(6)}`;
+    return key;
+}
+
+/**
+ * The pose angle that gives `key`'s mirror joint the reflection of `angle`.
+ * A bone's world angle θ reflects to π − θ; its parent reflects the same way, so what is
+ * left for the pose angle is −angle less both joints' rest angles. Bones hung straight
+ * from the root have no parent to reflect with, so they take the π themselves.
+ */
+const mirrorAngle = (rig: RigDefinition, key: string, angle: number): number => {
+    const joint = getRigJoint(rig, key);
+    const mirror = getRigJoint(rig, getMirrorKey(key));
+    if (!joint || !mirror) return angle;
+    return wrapAngle((joint.parent === null ? Math.PI : 0) - angle - joint.restAngle - mirror.restAngle);
+};
+
+const mirrorAttachment = (attachment: PropAttachment): PropAttachment => attachment.bone === null
+    ? { bone: null, offset: { x: W - attachment.offset.x, y: attachment.offset.y }, rotation: wrapAngle(Math.PI - attachment.rotation) }
+    : { bone: getMirrorKey(attachment.bone), offset: { x: attachment.offset.x, y: -attachment.offset.y }, rotation: -attachment.rotation };
+
+/**
+ * Flips the whole figure horizontally about the centre of the canvas: left and right swap,
+ * every bone reflects, and so do keyframed prop attachments; bone scales and draw layers swap sides.
+ * The reflection is exact, so a rig whose limits are not symmetric (elbows and knees
+ * bending the same way on both sides) may end up bent past them.
+ */
+export function mirrorPose<T extends RigPose = PoseData>(pose: T, rig: RigDefinition = HUMANOID_RIG): T {
+    const result: T = JSON.parse(JSON.stringify(pose));
+    result.offset = { x: -pose.offset.x, y: pose.offset.y };
+    rig.joints.forEach(joint => {
+        setPoseAngle(result, getMirrorKey(joint.key), mirrorAngle(rig, joint.key, getPoseAngle(pose, joint.key)));
+    });
+    if (pose.scale) {
+        result.scale = Object.fromEntries(Object.entries(pose.scale).map(([key, scale]) => [getMirrorKey(key), { ...scale }]));
+    }
+    const layers: PoseData['layers'] = pose.layers;
+    if (layers) {
+        (result as RigPose).layers = Object.fromEntries(Object.entries(layers).map(([key, layer]) => [getMirrorKey(key), layer]));
+    }
+    const props: PoseData['props'] = pose.props;
+    if (props) {
+        (result as RigPose).props = Object.fromEntries(Object.entries(props).map(([id, attachment]) => [id, mirrorAttachment(attachment)]));
+    }
+    return result;
+}
+
+/**
+ * The limbs of one side, named by the part each starts at: `shoulder` and `hip` for the humanoid.
+ */
+export function getLimbRoots(rig: RigDefinition = HUMANOID_RIG, side: Side = 'left'): string[] {
+    const prefix = `${side}.`;
+    return rig.joints
+        .filter(joint => joint.key.startsWith(prefix) && !joint.parent?.startsWith(prefix))
+        .map(joint => joint.key.slice(prefix.length));
+}
+
+/**
+ * Gives the other side a mirror image of `from`'s limbs, reflected across the bone each limb
+ * hangs from, so the figure becomes symmetric. `limb` (e.g. 'shoulder') limits the copy to
+ * the limb starting there; otherwise every limb on the side is copied. Bone scales go along.
+ */
+export function copySide<T extends RigPose = PoseData>(pose: T, from: Side, limb?: string, rig: RigDefinition = HUMANOID_RIG): T {
+    const result: T = JSON.parse(JSON.stringify(pose));
+    const prefix = `${from}.`;
+    const limbRoot = limb ? `${prefix}${limb}` : null;
+    const isInLimb = (key: string): boolean => {
+        if (!key.startsWith(prefix)) return false;
+        if (!limbRoot || key === limbRoot) return true;
+        const parent = getRigJoint(rig, key)?.parent;
+        return !!parent && isInLimb(parent);
+    };
+
+    rig.joints.filter(joint => isInLimb(joint.key)).forEach(joint => {
+        const target = getMirrorKey(joint.key);
+        setPoseAngle(result, target, mirrorAngle(rig, joint.key, getPoseAngle(pose, joint.key)));
+        const scale = pose.scale?.[joint.key];
+        if (scale) {
+            result.scale = { ...result.scale, [target]: { ...scale } };
+        } else if (result.scale?.[target]) {
+            const { [target]: _, ...rest }: BoneScales = result.scale;
+            result.scale = rest;
+        }
+    });
+    return result;
+}
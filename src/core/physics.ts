@@ -1,12 +1,38 @@
 
-import type { Point, PoseData, PhysicsBody, PhysicsParticle, Skeleton, PhysicsConstraint } from './types';
-import { computeSkeleton, hierarchy, W, H, BASE_ANGLES } from './kinematics';
+import type { Point, PoseData, RigDefinition, RigPose, PhysicsBody, PhysicsParticle, Skeleton, PhysicsConstraint, PhysicsAngularConstraint, PhysicsCapsule, PhysicsConfig, PhysicsWorld, TargetObject, JointLimits, Collider, ActiveRagdollSettings, ForceField } from './types';
+import { computeRigSkeleton, W, H, HUMANOID_RIG } from './kinematics';
+import { getRigTables, getPoseAngle, setPoseAngle } from './rig';
+import { createRandom } from './random';
+import { applyForces } from './forces';
+import { collideWithColliders, collideWithBounds, resolveCircleCollider, SURFACE_MATERIALS } from './colliders';
+
+// --- Simulation Presets ---
+export const DEFAULT_PHYSICS_CONFIG: PhysicsConfig = {
+    gravity: { x: 0, y: 2500 }, // High gravity for a "ballistic" plop effect.
+    friction: 0.96,             // Higher friction dissipates energy faster for a definitive "plop".
+    stiffness: 0.75,            // Higher stiffness with more iterations reduces elasticity and jiggle.
+    solverIterations: 15,
+    substeps: 1,
+    edgeMaterial: SURFACE_MATERIALS['default'],
+    solver: 'pbd',
+    compliance: 0,
+    constraintDamping: 0,
+};
+
+export const PHYSICS_PRESETS: { [name: string]: PhysicsConfig } = {
+    'default': DEFAULT_PHYSICS_CONFIG,
+    'moon': { gravity: { x: 0, y: 420 }, friction: 0.995, stiffness: 0.75, solverIterations: 15, substeps: 1, edgeMaterial: SURFACE_MATERIALS['default'], solver: 'pbd', compliance: 0, constraintDamping: 0 },
+    'underwater': { gravity: { x: 0, y: 600 }, friction: 0.86, stiffness: 0.6, solverIterations: 12, substeps: 1, edgeMaterial: SURFACE_MATERIALS['default'], solver: 'pbd', compliance: 0, constraintDamping: 0 },
+    'rubbery': { gravity: { x: 0, y: 2200 }, friction: 0.985, stiffness: 0.12, solverIterations: 6, substeps: 2, edgeMaterial: SURFACE_MATERIALS['default'], solver: 'pbd', compliance: 0, constraintDamping: 0 },
+    'heavy': { gravity: { x: 0, y: 4800 }, friction: 0.9, stiffness: 0.9, solverIterations: 20, substeps: 2, edgeMaterial: SURFACE_MATERIALS['default'], solver: 'pbd', compliance: 0, constraintDamping: 0 },
+    'cartoon': { gravity: { x: 0, y: 2500 }, friction: 0.96, stiffness: 0.75, solverIterations: 10, substeps: 4, edgeMaterial: SURFACE_MATERIALS['default'], solver: 'xpbd', compliance: 0.0004, constraintDamping: 10 },
+};
+
+// Smallest collision radius of a bone capsule, so thin parts still make contact.
+const PARTICLE_RADIUS = 5;
+// A ball's own bounciness, used in place of the surface's.
+const TARGET_RESTITUTION = 0.6;
 
-// --- Simulation Constants ---
-const FRICTION = 0.96; // Higher friction dissipates energy faster for a definitive "plop".
-const SOLVER_ITERATIONS = 15; // Increased for more stability
-const GRAVITY = { x: 0, y: 2500 }; // High-gravity constant for a "ballistic" plop effect.
-const STIFFNESS = 0.75; // Higher stiffness with more iterations reduces elasticity and jiggle.
 
 /**
  * Calculates the shortest difference between two angles.
@@ -14,39 +40,45 @@ const STIFFNESS = 0.75; // Higher stiffness with more iterations reduces elastic
  */
 const shortestAngleDiff = (from: number, to: number): number => {
     let diff = to - from;
-    if (diff > Math.PI) {
-        diff -= 2 * Math.PI;
-    } else if (diff < -Math.PI) {
-        diff += 2 * Math.PI;
-    }
+    while (diff > Math.PI) diff -= 2 * Math.PI;
+    while (diff < -Math.PI) diff += 2 * Math.PI;
     return diff;
 };
 
 /**
- * Creates a physics body (particles and constraints) from a static pose.
+ * Mass distribution as the rig declares it. Unknown joints weigh as much as an end effector.
  */
-export function createPhysicsBodyFromPose(pose: PoseData): PhysicsBody {
-    const skeleton = computeSkeleton(pose);
+export const getParticleMass = (key: string, rig: RigDefinition = HUMANOID_RIG): number => {
+    return getRigTables(rig).masses[key] ?? 0.5;
+};
+
+/**
+ * Creates a physics body (particles and constraints) from a static pose of the given rig.
+ * Uses the rig's own joint limits unless `limits` is given.
+ * It takes no PhysicsConfig: the body is only the rig's geometry and masses, and every config
+ * setting (gravity, friction, solver, stiffness...) is read by `updatePhysicsBody` on each step,
+ * so a preset or slider change takes effect mid-fall without rebuilding the body.
+ */
+export function createPhysicsBodyFromPose(pose: RigPose, limits?: JointLimits, rig: RigDefinition = HUMANOID_RIG): PhysicsBody {
+    const skeleton = computeRigSkeleton(rig, pose);
+    const { hierarchy, segments, shared } = getRigTables(rig);
     const particles: PhysicsParticle[] = [];
     const constraints: PhysicsConstraint[] = [];
     const particleMap = new Map<string, number>();
 
-    // Create particles from joints
+    // Create particles from joints. Joints that sit on another's particle reuse it.
     Object.entries(skeleton.joints).forEach(([key, point]) => {
+        const sharedIndex = shared[key] !== undefined ? particleMap.get(shared[key]) : undefined;
+        if (sharedIndex !== undefined) {
+            particleMap.set(key, sharedIndex);
+            return;
+        }
         const particle: PhysicsParticle = {
             id: key,
             pos: { ...point },
             prevPos: { ...point },
-            mass: 1.0,
+            mass: getParticleMass(key, rig),
         };
-        // Mass distribution based on material spec
-        if (key === 'root' || key === 'torso' || key.includes('hip') || key.includes('shoulder')) {
-            particle.mass = 3.0; // Primary Mass
-        } else if (key === 'waist' || key === 'head' || key === 'neck') {
-            particle.mass = 1.5; // Pivots
-        } else {
-            particle.mass = 0.5; // End Effectors
-        }
         particleMap.set(key, particles.length);
         particles.push(particle);
     });
@@ -69,169 +101,801 @@ export function createPhysicsBodyFromPose(pose: PoseData): PhysicsBody {
         });
     });
 
-    return { particles, constraints, particleMap };
+    // One capsule per drawn bone, as wide as the bone is drawn
+    const capsules: PhysicsCapsule[] = [];
+    skeleton.bones.forEach(bone => {
+        const [startKey, endKey] = segments[bone.key] ?? [bone.key, bone.key];
+        const startIndex = particleMap.get(startKey);
+        const endIndex = particleMap.get(endKey);
+        if (startIndex === undefined || endIndex === undefined) return;
+        const capsule: PhysicsCapsule = { key: bone.key, startIndex, endIndex, radius: Math.max(PARTICLE_RADIUS, bone.width / 2) };
+        // A leaf bone (hand, foot) reaches its drawn length along the bone it hangs from
+        const parentSegment = segments[bone.key] ? undefined : segments[hierarchy[bone.key]?.parent];
+        const fromIndex = parentSegment ? particleMap.get(parentSegment[0]) : undefined;
+        const length = Math.hypot(bone.end.x - bone.start.x, bone.end.y - bone.start.y);
+        if (fromIndex !== undefined && fromIndex !== startIndex && length > 0.1) capsule.tip = { fromIndex, length };
+        capsules.push(capsule);
+    });
+
+    const body: PhysicsBody = { particles, constraints, angularConstraints: [], capsules, particleMap, pins: {}, attachedMass: {}, motors: null, rig };
+    applyJointLimits(body, limits ?? getRigTables(rig).limits);
+    return body;
+}
+
+/**
+ * Whether the simulation can hold a joint to its limit: both its bone and its parent's need
+ * particles at each end. Hands and feet have nothing at their tips and bones hung from the
+ * root (abdomen, waist) no parent bone, so their limits only apply while posing.
+ */
+export function canSimulateLimit(key: string, rig: RigDefinition = HUMANOID_RIG): boolean {
+    const { hierarchy, segments } = getRigTables(rig);
+    const parentKey = hierarchy[key]?.parent;
+    return !!segments[key] && !!parentKey && !!segments[parentKey];
+}
+
+/**
+ * Rebuilds the body's angular constraints from a joint limit table.
+ * Limits the simulation cannot hold (see canSimulateLimit) are left out.
+ * Safe to call on a running body, e.g. while the limits are being edited.
+ */
+export function applyJointLimits(body: PhysicsBody, limits: JointLimits): void {
+    const angularConstraints: PhysicsAngularConstraint[] = [];
+    const { hierarchy, segments, restAngles } = getRigTables(body.rig);
+
+    Object.entries(limits).forEach(([key, range]) => {
+        if (!canSimulateLimit(key, body.rig)) return;
+        const segment = segments[key];
+        const parentSegment = segments[hierarchy[key].parent!];
+
+        const indices = [...parentSegment, ...segment].map(id => body.particleMap.get(id));
+        if (indices.some(i => i === undefined)) return;
+        const [parentStartIndex, parentEndIndex, startIndex, endIndex] = indices as number[];
+
+        angularConstraints.push({
+            key,
+            parentStartIndex,
+            parentEndIndex,
+            startIndex,
+            endIndex,
+            baseAngle: restAngles[key] || 0,
+            min: range.min,
+            max: range.max,
+        });
+    });
+
+    body.angularConstraints = angularConstraints;
+}
+
+/**
+ * Anchors the given joints: each becomes a zero-mass particle held at its pin position.
+ * Joints that were pinned before but are missing from `pins` get their mass back.
+ */
+export function applyPins(body: PhysicsBody, pins: { [key: string]: Point }): void {
+    Object.keys(body.pins).forEach(key => {
+        if (pins[key]) return;
+        const index = body.particleMap.get(key);
+        if (index !== undefined) body.particles[index].mass = getParticleMass(key, body.rig) + (body.attachedMass[key] ?? 0);
+    });
+
+    body.pins = {};
+    Object.entries(pins).forEach(([key, pin]) => {
+        const index = body.particleMap.get(key);
+        if (index === undefined) return;
+        const p = body.particles[index];
+        p.mass = 0;
+        p.pos = { ...pin };
+        p.prevPos = { ...pin };
+        body.pins[key] = { ...pin };
+    });
+}
+
+/**
+ * Loads extra mass onto the listed joints' particles, e.g. the props their bones hold, replacing
+ * whatever was attached before. Pinned particles keep zero mass until they are released.
+ */
+export function applyAttachedMass(body: PhysicsBody, masses: { [key: string]: number }): void {
+    body.attachedMass = {};
+    Object.entries(masses).forEach(([key, mass]) => {
+        const index = body.particleMap.get(key);
+        if (index === undefined) return;
+        const id = body.particles[index].id;
+        body.attachedMass[id] = (body.attachedMass[id] ?? 0) + mass;
+    });
+    body.particles.forEach(p => {
+        if (!body.pins[p.id]) p.mass = getParticleMass(p.id, body.rig) + (body.attachedMass[p.id] ?? 0);
+    });
+}
+
+/**
+ * Gives the listed joints their own bounciness; every other joint bounces like the surface it hits.
+ */
+export function applyRestitution(body: PhysicsBody, restitution: { [key: string]: number }): void {
+    body.particles.forEach(p => {
+        if (restitution[p.id] === undefined) delete p.restitution;
+        else p.restitution = restitution[p.id];
+    });
 }
 
+/**
+ * The joint whose bone a constraint holds together: the one whose segment joins the same two
+ * particles. Links that are no bone's segment (e.g. from the chest out to a shoulder) have none.
+ */
+const getConstraintBone = (body: PhysicsBody, c: PhysicsConstraint): string | undefined => {
+    const { segments } = getRigTables(body.rig);
+    return Object.keys(segments).find(key => {
+        const start = body.particleMap.get(segments[key][0]);
+        const end = body.particleMap.get(segments[key][1]);
+        return (start === c.particleAIndex && end === c.particleBIndex) || (start === c.particleBIndex && end === c.particleAIndex);
+    });
+};
+
+/**
+ * Gives the listed joints' bones their own XPBD compliance, so a stretchy limb can sit next to
+ * rigid ones. Keys are the rig's segments; every other link uses PhysicsConfig.compliance.
+ */
+export function applyCompliance(body: PhysicsBody, compliance: { [key: string]: number }): void {
+    body.constraints.forEach(c => {
+        const key = getConstraintBone(body, c);
+        if (key === undefined || compliance[key] === undefined) delete c.compliance;
+        else c.compliance = compliance[key];
+    });
+}
+
+/**
+ * Gives the listed joints' bones their own XPBD damping, so a wobbly limb can settle at its own
+ * pace. Keys are the rig's segments; every other link uses PhysicsConfig.constraintDamping.
+ */
+export function applyDamping(body: PhysicsBody, damping: { [key: string]: number }): void {
+    body.constraints.forEach(c => {
+        const key = getConstraintBone(body, c);
+        if (key === undefined || damping[key] === undefined) delete c.damping;
+        else c.damping = damping[key];
+    });
+}
+
+const rotateAround = (p: Point, center: Point, angle: number) => {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const dx = p.x - center.x;
+    const dy = p.y - center.y;
+    p.x = center.x + dx * cos - dy * sin;
+    p.y = center.y + dx * sin + dy * cos;
+};
+
+/**
+ * Returns the rotation needed to bring `angle` back inside [min, max],
+ * heading for whichever bound is closer around the circle. Zero when inside.
+ */
+const angularCorrection = (angle: number, min: number, max: number): number => {
+    const local = shortestAngleDiff(0, angle);
+    if (local >= min && local <= max) return 0;
+    const toMin = shortestAngleDiff(local, min);
+    const toMax = shortestAngleDiff(local, max);
+    return Math.abs(toMin) < Math.abs(toMax) ? toMin : toMax;
+};
+
+/**
+ * Applies a relative rotation between a parent and a child segment.
+ */
+const rotateSegments = (body: PhysicsBody, parentStartIndex: number, parentEndIndex: number, startIndex: number, endIndex: number, correction: number) => {
+    const parentStart = body.particles[parentStartIndex];
+    const start = body.particles[startIndex];
+    const end = body.particles[endIndex];
+
+    if (parentEndIndex === startIndex) {
+        // Both segments hinge on the same particle: swing the two outer particles,
+        // with the side that is easier to turn (lighter, or closer in) taking more of the rotation.
+        const inertia = (p: PhysicsParticle) => p.mass * ((p.pos.x - start.pos.x) ** 2 + (p.pos.y - start.pos.y) ** 2);
+        const parentInertia = inertia(parentStart);
+        const endInertia = inertia(end);
+        const totalInertia = parentInertia + endInertia;
+        if (totalInertia === 0) return;
+        const endShare = end.mass > 0 ? (parentStart.mass > 0 ? parentInertia / totalInertia : 1) : 0;
+        const parentShare = parentStart.mass > 0 ? 1 - endShare : 0;
+        rotateAround(end.pos, start.pos, correction * endShare);
+        rotateAround(parentStart.pos, start.pos, -correction * parentShare);
+    } else if (end.mass > 0) {
+        // The segment hangs off the side of its parent (shoulders, hips).
+        rotateAround(end.pos, start.pos, correction);
+    }
+};
+
+const segmentAngle = (body: PhysicsBody, startIndex: number, endIndex: number): number => {
+    const a = body.particles[startIndex].pos;
+    const b = body.particles[endIndex].pos;
+    return Math.atan2(b.y - a.y, b.x - a.x);
+};
+
+const solveAngularConstraint = (body: PhysicsBody, c: PhysicsAngularConstraint, stiffness: number) => {
+    const parentAngle = segmentAngle(body, c.parentStartIndex, c.parentEndIndex);
+    const childAngle = segmentAngle(body, c.startIndex, c.endIndex);
+    const correction = angularCorrection(childAngle - parentAngle - c.baseAngle, c.min, c.max) * stiffness;
+    if (correction === 0) return;
+    rotateSegments(body, c.parentStartIndex, c.parentEndIndex, c.startIndex, c.endIndex, correction);
+};
+
+// --- Active Ragdoll Motors ---
+
+// Share of each motor correction that is kept out of the particle's velocity.
+const MOTOR_DAMPING = 0.8;
+
+type MotorLink = { key: string; parent: [string, string] | null; child: [string, string] };
+
+// Every segment pair a motor can drive, keyed by the joint strength that controls it.
+// A null parent means the segment is driven towards a world angle. Bones mounted off the
+// side of their parent (shoulders, hips) ride on the parent's motor so the frame keeps its shape.
+const getMotorLinks = (rig: RigDefinition): MotorLink[] => {
+    const { hierarchy, segments, mounts } = getRigTables(rig);
+    return [
+        ...Object.entries(segments).map(([key, child]) => {
+            const parentKey = hierarchy[key]?.parent;
+            return { key, parent: (parentKey && segments[parentKey]) || null, child };
+        }),
+        ...mounts
+            .filter(([parentKey]) => segments[parentKey])
+            .map(([parentKey, key]): MotorLink => ({ key: parentKey, parent: segments[parentKey], child: [parentKey, key] })),
+    ];
+};
+
+// Joints with their own motor strength, in the order the UI lists them.
+export const getMotorJoints = (rig: RigDefinition = HUMANOID_RIG): string[] => ['root', ...Object.keys(getRigTables(rig).segments)];
+export const MOTOR_JOINTS: string[] = getMotorJoints();
+
+export const DEFAULT_ACTIVE_RAGDOLL: ActiveRagdollSettings = {
+    enabled: false,
+    strength: 0.5,
+    jointStrengths: Object.fromEntries(MOTOR_JOINTS.map(key => [key, 1])),
+};
+
+type ResolvedMotor = { indices: [number, number, number, number] | [number, number]; targetAngle: number; factor: number };
+
+/**
+ * Resolves the body's motors against their target skeleton once per step.
+ * `factor` is the per-iteration share that adds up to the motor's strength over a whole step.
+ */
+const resolveMotors = (body: PhysicsBody, iterations: number): ResolvedMotor[] => {
+    const motors = body.motors;
+    if (!motors || motors.strength <= 0) return [];
+    const targetJoints = computeRigSkeleton(body.rig, motors.target).joints;
+    const angleOf = ([a, b]: [string, string]) => Math.atan2(targetJoints[b].y - targetJoints[a].y, targetJoints[b].x - targetJoints[a].x);
+    const resolved: ResolvedMotor[] = [];
+
+    getMotorLinks(body.rig).forEach(link => {
+        const strength = Math.min(1, motors.strength * (motors.jointStrengths[link.key] ?? 1));
+        if (strength <= 0) return;
+        const factor = 1 - Math.pow(1 - strength, 1 / iterations);
+        const segments = link.parent ? [...link.parent, ...link.child] : link.child;
+        const indices = segments.map(id => body.particleMap.get(id));
+        if (indices.some(i => i === undefined)) return;
+        const targetAngle = angleOf(link.child) - (link.parent ? angleOf(link.parent) : 0);
+        resolved.push({ indices: indices as ResolvedMotor['indices'], targetAngle, factor });
+    });
+
+    return resolved;
+};
+
+const solveMotor = (body: PhysicsBody, motor: ResolvedMotor) => {
+    const idx = motor.indices;
+    const moved = idx.map(i => body.particles[i]);
+    const before = moved.map(p => ({ ...p.pos }));
+
+    if (idx.length === 4) {
+        const current = segmentAngle(body, idx[2], idx[3]) - segmentAngle(body, idx[0], idx[1]);
+        rotateSegments(body, idx[0], idx[1], idx[2], idx[3], shortestAngleDiff(current, motor.targetAngle) * motor.factor);
+    } else {
+        // A world-space motor turns the segment about its centre of mass, so it
+        // steers the body without shoving it sideways.
+        const [start, end] = moved;
+        const totalMass = start.mass + end.mass;
+        if (totalMass === 0) return;
+        const endWeight = start.mass === 0 ? 0 : end.mass === 0 ? 1 : end.mass / totalMass;
+        const center = { x: start.pos.x + (end.pos.x - start.pos.x) * endWeight, y: start.pos.y + (end.pos.y - start.pos.y) * endWeight };
+        const correction = shortestAngleDiff(segmentAngle(body, idx[0], idx[1]), motor.targetAngle) * motor.factor;
+        rotateAround(start.pos, center, correction);
+        rotateAround(end.pos, center, correction);
+    }
+
+    // Damping: only part of the correction carries over as velocity, otherwise
+    // chained motors keep feeding each other energy and the limbs start to shake.
+    moved.forEach((p, i) => {
+        p.prevPos.x += (p.pos.x - before[i].x) * MOTOR_DAMPING;
+        p.prevPos.y += (p.pos.y - before[i].y) * MOTOR_DAMPING;
+    });
+};
+
+/**
+ * Pulls the root towards the target pose's root. Like the other constraints this only
+ * moves `pos`, so Verlet integration turns the pull into velocity on the next step.
+ */
+const driveRoot = (body: PhysicsBody) => {
+    const motors = body.motors;
+    const rootIndex = body.particleMap.get('root');
+    if (!motors || rootIndex === undefined) return;
+    const strength = Math.min(1, motors.strength * (motors.jointStrengths['root'] ?? 1));
+    const root = body.particles[rootIndex];
+    if (strength <= 0 || root.mass === 0) return;
+
+    const target = { x: W / 2 + motors.target.offset.x, y: H / 2 + motors.target.offset.y };
+    const dx = (target.x - root.pos.x) * strength;
+    const dy = (target.y - root.pos.y) * strength;
+    root.pos.x += dx; root.pos.y += dy;
+};
+
+// --- Bone Capsules ---
+
+/**
+ * Collision radius of each particle against flat boundaries: the widest capsule it ends.
+ */
+const getCollisionRadii = (body: PhysicsBody): number[] => {
+    const radii = body.particles.map(() => PARTICLE_RADIUS);
+    body.capsules.forEach(c => {
+        radii[c.startIndex] = Math.max(radii[c.startIndex], c.radius);
+        radii[c.endIndex] = Math.max(radii[c.endIndex], c.radius);
+    });
+    return radii;
+};
+
+/**
+ * Hands a collision routine the capsule's two end particles. A leaf bone's tip has no particle,
+ * so it gets a stand-in welded to the start particle: wherever the routine moves the stand-in
+ * (and its previous position), the start particle moves the same, and the whole hand or foot
+ * is held up rather than just the wrist or ankle.
+ */
+const withCapsuleEnds = (body: PhysicsBody, capsule: PhysicsCapsule, resolve: (pA: PhysicsParticle, pB: PhysicsParticle) => void) => {
+    const pA = body.particles[capsule.startIndex];
+    if (!capsule.tip) {
+        resolve(pA, body.particles[capsule.endIndex]);
+        return;
+    }
+    const from = body.particles[capsule.tip.fromIndex];
+    const reach = (pos: Point, fromPos: Point): Point => {
+        const d = Math.hypot(pos.x - fromPos.x, pos.y - fromPos.y);
+        if (d < 0.001) return { ...pos };
+        const scale = capsule.tip.length / d;
+        return { x: pos.x + (pos.x - fromPos.x) * scale, y: pos.y + (pos.y - fromPos.y) * scale };
+    };
+    const tipPos = reach(pA.pos, from.pos);
+    const tipPrevPos = reach(pA.prevPos, from.prevPos);
+    const tip: PhysicsParticle = { id: pA.id, pos: { ...tipPos }, prevPos: { ...tipPrevPos }, mass: pA.mass, restitution: pA.restitution };
+    resolve(pA, tip);
+    pA.pos.x += tip.pos.x - tipPos.x;
+    pA.pos.y += tip.pos.y - tipPos.y;
+    pA.prevPos.x += tip.prevPos.x - tipPrevPos.x;
+    pA.prevPos.y += tip.prevPos.y - tipPrevPos.y;
+};
+
+/**
+ * Pushes a bone capsule (from `pA` to `pB`, the same particle for a circle) out of a collider,
+ * testing circles spaced along the bone. Each push is shared between the two end particles by
+ * how close the contact is to each (and by mass), so a thigh landing on its middle is held up
+ * at both ends. The contact point's velocity change (bounce and friction from the collider's
+ * material) is shared the same way.
+ */
+const collideCapsule = (pA: PhysicsParticle, pB: PhysicsParticle, radius: number, collider: Collider) => {
+    const invMassA = pA.mass > 0 ? 1 / pA.mass : 0;
+    const invMassB = pB.mass > 0 ? 1 / pB.mass : 0;
+    const isCircle = pA === pB;
+    const length = Math.hypot(pB.pos.x - pA.pos.x, pB.pos.y - pA.pos.y);
+    const intervals = isCircle ? 0 : Math.max(1, Math.ceil(length / radius));
+
+    for (let i = 0; i <= intervals; i++) {
+        const weightB = isCircle ? 0 : i / intervals;
+        const weightA = 1 - weightB;
+        const denominator = weightA * weightA * invMassA + weightB * weightB * invMassB;
+        if (denominator === 0) continue;
+
+        const sample = { x: pA.pos.x * weightA + pB.pos.x * weightB, y: pA.pos.y * weightA + pB.pos.y * weightB };
+        const resolved = { ...sample };
+        const normal = resolveCircleCollider(resolved, radius, collider);
+        if (!normal) continue;
+        const push = { x: resolved.x - sample.x, y: resolved.y - sample.y };
+
+        const velocityA = { x: pA.pos.x - pA.prevPos.x, y: pA.pos.y - pA.prevPos.y };
+        const velocityB = { x: pB.pos.x - pB.prevPos.x, y: pB.pos.y - pB.prevPos.y };
+        const contactVelocity = { x: velocityA.x * weightA + velocityB.x * weightB, y: velocityA.y * weightA + velocityB.y * weightB };
+        const vn = contactVelocity.x * normal.x + contactVelocity.y * normal.y;
+        // The change in the contact point's velocity: bounce and friction, as in applyContactVelocity.
+        let change = { x: 0, y: 0 };
+        if (vn < 0) { // Leave separating motion alone
+            const restitution = (pA.restitution ?? collider.material.restitution) * weightA + (pB.restitution ?? collider.material.restitution) * weightB;
+            const bounce = -(1 + restitution) * vn;
+            const friction = collider.material.friction;
+            change = {
+                x: bounce * normal.x - (contactVelocity.x - vn * normal.x) * friction,
+                y: bounce * normal.y - (contactVelocity.y - vn * normal.y) * friction,
+            };
+        }
+
+        const respond = (p: PhysicsParticle, velocity: Point, share: number) => {
+            if (share === 0) return;
+            p.pos.x += push.x * share;
+            p.pos.y += push.y * share;
+            p.prevPos.x = p.pos.x - (velocity.x + change.x * share);
+            p.prevPos.y = p.pos.y - (velocity.y + change.y * share);
+        };
+        respond(pA, velocityA, (weightA * invMassA) / denominator);
+        if (!isCircle) respond(pB, velocityB, (weightB * invMassB) / denominator);
+    }
+};
+
+/**
+ * PBD distance constraint: corrects `stiffness` of the error, weighted by inverse mass.
+ */
+const solveDistanceConstraint = (body: PhysicsBody, c: PhysicsConstraint, stiffness: number) => {
+    const pA = body.particles[c.particleAIndex];
+    const pB = body.particles[c.particleBIndex];
+    const delta = { x: pB.pos.x - pA.pos.x, y: pB.pos.y - pA.pos.y };
+    const dist = Math.hypot(delta.x, delta.y);
+    if (dist < 0.001) return;
+    
+    const diff = (dist - c.restLength) / dist;
+    // Zero mass marks an immovable (pinned or grabbed) particle.
+    const invMassA = pA.mass > 0 ? 1 / pA.mass : 0;
+    const invMassB = pB.mass > 0 ? 1 / pB.mass : 0;
+    const totalInvMass = invMassA + invMassB;
+    if (totalInvMass === 0) return;
+    
+    const pAShare = invMassA / totalInvMass;
+    const pBShare = invMassB / totalInvMass;
+
+    const correctionX = delta.x * diff * stiffness;
+    const correctionY = delta.y * diff * stiffness;
+
+    pA.pos.x += correctionX * pAShare;
+    pA.pos.y += correctionY * pAShare;
+    pB.pos.x -= correctionX * pBShare;
+    pB.pos.y -= correctionY * pBShare;
+};
+
+/**
+ * XPBD distance constraint. `lambda` is the force accumulated over this step's iterations, which
+ * is what makes the result independent of the iteration count; scaling compliance by dt^2 makes
+ * it independent of the step size.
+ */
+const solveXpbdConstraint = (body: PhysicsBody, c: PhysicsConstraint, lambda: Float64Array, index: number, dt: number, config: PhysicsConfig) => {
+    const pA = body.particles[c.particleAIndex];
+    const pB = body.particles[c.particleBIndex];
+    const delta = { x: pB.pos.x - pA.pos.x, y: pB.pos.y - pA.pos.y };
+    const dist = Math.hypot(delta.x, delta.y);
+    if (dist < 0.001) return;
+
+    const invMassA = pA.mass > 0 ? 1 / pA.mass : 0;
+    const invMassB = pB.mass > 0 ? 1 / pB.mass : 0;
+    if (invMassA + invMassB === 0) return;
+
+    const n = { x: delta.x / dist, y: delta.y / dist };
+    const error = dist - c.restLength;
+    const alpha = (c.compliance ?? config.compliance) / (dt * dt);
+    const gamma = alpha * (c.damping ?? config.constraintDamping) * dt;
+    // Rate of stretching since the start of the step, resisted by damping.
+    const stretch = n.x * (pB.pos.x - pB.prevPos.x - pA.pos.x + pA.prevPos.x) + n.y * (pB.pos.y - pB.prevPos.y - pA.pos.y + pA.prevPos.y);
+
+    const deltaLambda = (-error - alpha * lambda[index] - gamma * stretch) / ((1 + gamma) * (invMassA + invMassB) + alpha);
+    lambda[index] += deltaLambda;
+
+    pA.pos.x -= n.x * deltaLambda * invMassA;
+    pA.pos.y -= n.y * deltaLambda * invMassA;
+    pB.pos.x += n.x * deltaLambda * invMassB;
+    pB.pos.y += n.y * deltaLambda * invMassB;
+};
+
+// `config.friction` is the velocity kept per fixed step; a substep keeps its share of that,
+// so damping is the same however many substeps the step is divided into.
+const getStepFriction = (config: PhysicsConfig, dt: number): number => Math.pow(config.friction, dt / FIXED_TIME_STEP);
+
 /**
  * Runs one step of the physics simulation.
  */
-export function updatePhysicsBody(body: PhysicsBody, dt: number): void {
+export function updatePhysicsBody(body: PhysicsBody, dt: number, config: PhysicsConfig = DEFAULT_PHYSICS_CONFIG, colliders: Collider[] = []): void {
     const dtSq = dt * dt;
+    const { gravity, stiffness, solverIterations } = config;
+    const isXpbd = config.solver === 'xpbd';
+    const friction = getStepFriction(config, dt);
+
+    // 0. Move anchored particles to their (possibly dragged) pins
+    Object.entries(body.pins).forEach(([key, pin]) => {
+        const index = body.particleMap.get(key);
+        if (index === undefined) return;
+        const p = body.particles[index];
+        p.prevPos = { ...p.pos };
+        p.pos = { ...pin };
+    });
 
     // 1. Apply forces (gravity, friction) and integrate
     body.particles.forEach((p) => {
         if (p.mass === 0) return;
 
-        const velocity = { x: (p.pos.x - p.prevPos.x) * FRICTION, y: (p.pos.y - p.prevPos.y) * FRICTION };
+        const velocity = { x: (p.pos.x - p.prevPos.x) * friction, y: (p.pos.y - p.prevPos.y) * friction };
         p.prevPos = { ...p.pos };
 
-        const accel = { x: GRAVITY.x, y: GRAVITY.y };
+        const accel = { x: gravity.x, y: gravity.y };
 
         p.pos.x += velocity.x + accel.x * dtSq;
         p.pos.y += velocity.y + accel.y * dtSq;
     });
 
-    // 2. Solve constraints
-    for (let i = 0; i < SOLVER_ITERATIONS; i++) {
-        body.constraints.forEach(c => {
-            const pA = body.particles[c.particleAIndex];
-            const pB = body.particles[c.particleBIndex];
-            const delta = { x: pB.pos.x - pA.pos.x, y: pB.pos.y - pA.pos.y };
-            const dist = Math.hypot(delta.x, delta.y);
-            if (dist < 0.001) return;
-            
-            const diff = (dist - c.restLength) / dist;
-            const totalMass = pA.mass + pB.mass;
-            if (totalMass === 0) return;
-            
-            const pAShare = pA.mass > 0 ? pA.mass / totalMass : 1;
-            const pBShare = pB.mass > 0 ? pB.mass / totalMass : 1;
+    // 2. Solve constraints, with active ragdoll motors pulling towards the target pose
+    driveRoot(body);
+    const motors = resolveMotors(body, solverIterations);
+    const lambda = new Float64Array(isXpbd ? body.constraints.length : 0);
+    // Joint limits have no compliance; under XPBD they are always fully enforced.
+    const limitStiffness = isXpbd ? 1 : stiffness;
+    for (let i = 0; i < solverIterations; i++) {
+        if (isXpbd) body.constraints.forEach((c, index) => solveXpbdConstraint(body, c, lambda, index, dt, config));
+        else body.constraints.forEach(c => solveDistanceConstraint(body, c, stiffness));
 
-            const correctionX = delta.x * diff * STIFFNESS;
-            const correctionY = delta.y * diff * STIFFNESS;
-
-            pA.pos.x += correctionX * pBShare;
-            pA.pos.y += correctionY * pBShare;
-            pB.pos.x -= correctionX * pAShare;
-            pB.pos.y -= correctionY * pAShare;
-        });
+        motors.forEach(m => solveMotor(body, m));
+        body.angularConstraints.forEach(c => solveAngularConstraint(body, c, limitStiffness));
     }
 
-    // 3. Handle collisions with canvas boundaries (Impact Logic)
-    const PARTICLE_RADIUS = 5;
-    const bounds = {
-        top: PARTICLE_RADIUS,
-        bottom: H - PARTICLE_RADIUS,
-        left: PARTICLE_RADIUS,
-        right: W - PARTICLE_RADIUS,
-    };
-    const impactFalloutFactor = 0.15; // How much vertical momentum transfers to horizontal
+    // 3. Handle collisions with canvas boundaries.
+    // A capsule's outermost point against a straight edge is always at one of its ends,
+    // so each particle keeps clear by the widest capsule it belongs to, and leaf bones' tips too.
+    const edgeMaterial = (p: PhysicsParticle) => ({ ...config.edgeMaterial, restitution: p.restitution ?? config.edgeMaterial.restitution });
+    const radii = getCollisionRadii(body);
+    body.particles.forEach((p, index) => collideWithBounds(p.pos, p.prevPos, radii[index], edgeMaterial(p)));
+    body.capsules.forEach(capsule => {
+        if (capsule.tip) withCapsuleEnds(body, capsule, (_, tip) => collideWithBounds(tip.pos, tip.prevPos, capsule.radius, edgeMaterial(tip)));
+    });
 
-    body.particles.forEach(p => {
-        const vy = p.pos.y - p.prevPos.y; // Vertical velocity before correction
+    // 4. Handle collisions with user-placed static colliders
+    if (colliders.length > 0) {
+        body.capsules.forEach(capsule => colliders.forEach(collider => {
+            withCapsuleEnds(body, capsule, (pA, pB) => collideCapsule(pA, pB, capsule.radius, collider));
+        }));
+    }
+}
 
-        // Y-Axis Landing (Floor)
-        if (p.pos.y > bounds.bottom) {
-            p.pos.y = bounds.bottom; // Locked to bottom visible pixel
-            
-            // The "Thud": Nullify vertical velocity
-            p.prevPos.y = p.pos.y;
 
-            // Impact Fallout: Small horizontal slide based on Y-momentum
-            // This transfers a portion of the vertical velocity into the horizontal
-            // velocity by adjusting the previous x position.
-            p.prevPos.x -= vy * impactFalloutFactor;
-        }
-        
-        // Y-Axis Ceiling
-        if (p.pos.y < bounds.top) {
-            p.pos.y = bounds.top;
-            p.prevPos.y = p.pos.y; // Nullify vertical velocity
+/**
+ * Returns the index of the particle closest to `pos` within `radius`, or -1.
+ */
+export function findParticleNear(body: PhysicsBody, pos: Point, radius: number): number {
+    let closestIndex = -1;
+    let closestDist = radius;
+    body.particles.forEach((p, i) => {
+        const dist = Math.hypot(p.pos.x - pos.x, p.pos.y - pos.y);
+        if (dist <= closestDist) {
+            closestDist = dist;
+            closestIndex = i;
         }
+    });
+    return closestIndex;
+}
 
-        // X-Axis Containment (Side Walls)
-        if (p.pos.x > bounds.right) {
-            p.pos.x = bounds.right;
-            p.prevPos.x = p.pos.x; // Nullify horizontal velocity
-        }
-        if (p.pos.x < bounds.left) {
-            p.pos.x = bounds.left;
-            p.prevPos.x = p.pos.x; // Nullify horizontal velocity
+/**
+ * Creates a ball at rest at the given position.
+ */
+export function createTargetObject(pos: Point, radius: number = 24, mass: number = 2): TargetObject {
+    return { pos: { ...pos }, prevPos: { ...pos }, radius, mass };
+}
+
+/**
+ * Pushes a ball and a body particle apart, splitting the correction by mass.
+ */
+const separateTargetFromPoint = (target: TargetObject, p: PhysicsParticle, minDist: number) => {
+    const dx = target.pos.x - p.pos.x;
+    const dy = target.pos.y - p.pos.y;
+    const dist = Math.hypot(dx, dy);
+    if (dist >= minDist || dist < 0.001) return;
+
+    const overlap = minDist - dist;
+    const nx = dx / dist;
+    const ny = dy / dist;
+    const totalMass = target.mass + p.mass;
+    const targetShare = p.mass === 0 ? 1 : p.mass / totalMass;
+    const particleShare = p.mass === 0 ? 0 : target.mass / totalMass;
+
+    target.pos.x += nx * overlap * targetShare;
+    target.pos.y += ny * overlap * targetShare;
+    p.pos.x -= nx * overlap * particleShare;
+    p.pos.y -= ny * overlap * particleShare;
+};
+
+/**
+ * Resolves a ball against a bone capsule (the segment between two particles, swept by `boneRadius`).
+ * The body-side correction is distributed to both endpoints by the contact parameter.
+ */
+const separateTargetFromBone = (target: TargetObject, pA: PhysicsParticle, pB: PhysicsParticle, boneRadius: number) => {
+    const ab = { x: pB.pos.x - pA.pos.x, y: pB.pos.y - pA.pos.y };
+    const lenSq = ab.x * ab.x + ab.y * ab.y;
+    if (lenSq < 0.001) return;
+
+    const t = Math.max(0, Math.min(1, ((target.pos.x - pA.pos.x) * ab.x + (target.pos.y - pA.pos.y) * ab.y) / lenSq));
+    const closest = { x: pA.pos.x + ab.x * t, y: pA.pos.y + ab.y * t };
+    const dx = target.pos.x - closest.x;
+    const dy = target.pos.y - closest.y;
+    const dist = Math.hypot(dx, dy);
+    const minDist = target.radius + boneRadius;
+    if (dist >= minDist || dist < 0.001) return;
+
+    const overlap = minDist - dist;
+    const nx = dx / dist;
+    const ny = dy / dist;
+    const boneMass = pA.mass * (1 - t) + pB.mass * t;
+    const totalMass = target.mass + boneMass;
+    const targetShare = boneMass === 0 ? 1 : boneMass / totalMass;
+    const boneShare = boneMass === 0 ? 0 : target.mass / totalMass;
+
+    target.pos.x += nx * overlap * targetShare;
+    target.pos.y += ny * overlap * targetShare;
+    if (pA.mass > 0) {
+        pA.pos.x -= nx * overlap * boneShare * (1 - t);
+        pA.pos.y -= ny * overlap * boneShare * (1 - t);
+    }
+    if (pB.mass > 0) {
+        pB.pos.x -= nx * overlap * boneShare * t;
+        pB.pos.y -= ny * overlap * boneShare * t;
+    }
+};
+
+/**
+ * Runs one step for the free balls in the scene: Verlet integration, collisions
+ * against each other, the body's bone capsules, and the canvas edges.
+ * Call after `updatePhysicsBody` with the same `dt` and config.
+ */
+export function updateTargetObjects(targets: TargetObject[], body: PhysicsBody | null, dt: number, config: PhysicsConfig = DEFAULT_PHYSICS_CONFIG, colliders: Collider[] = []): void {
+    const dtSq = dt * dt;
+    const friction = getStepFriction(config, dt);
+
+    // 1. Integrate
+    targets.forEach(t => {
+        const velocity = { x: (t.pos.x - t.prevPos.x) * friction, y: (t.pos.y - t.prevPos.y) * friction };
+        t.prevPos = { ...t.pos };
+        t.pos.x += velocity.x + config.gravity.x * dtSq;
+        t.pos.y += velocity.y + config.gravity.y * dtSq;
+    });
+
+    // 2. Ball vs ball
+    for (let i = 0; i < targets.length; i++) {
+        for (let j = i + 1; j < targets.length; j++) {
+            const a = targets[i], b = targets[j];
+            const dx = b.pos.x - a.pos.x;
+            const dy = b.pos.y - a.pos.y;
+            const dist = Math.hypot(dx, dy);
+            const minDist = a.radius + b.radius;
+            if (dist >= minDist || dist < 0.001) continue;
+            const overlap = minDist - dist;
+            const aShare = b.mass / (a.mass + b.mass);
+            const bShare = a.mass / (a.mass + b.mass);
+            a.pos.x -= (dx / dist) * overlap * aShare;
+            a.pos.y -= (dy / dist) * overlap * aShare;
+            b.pos.x += (dx / dist) * overlap * bShare;
+            b.pos.y += (dy / dist) * overlap * bShare;
         }
+    }
+
+    // 3. Ball vs body
+    if (body) {
+        targets.forEach(t => {
+            body.capsules.forEach(c => withCapsuleEnds(body, c, (pA, pB) => {
+                if (pA === pB) separateTargetFromPoint(t, pA, t.radius + c.radius);
+                else separateTargetFromBone(t, pA, pB, c.radius);
+            }));
+        });
+    }
+
+    // 4. Ball vs static colliders and canvas edges, with the ball's own bounce
+    targets.forEach(t => {
+        collideWithColliders(t.pos, t.prevPos, t.radius, colliders, TARGET_RESTITUTION);
+        collideWithBounds(t.pos, t.prevPos, t.radius, { ...config.edgeMaterial, restitution: TARGET_RESTITUTION });
     });
 }
 
 
+// --- Fixed-Step Simulation ---
+
+// Every simulation advances in steps of exactly this length, whatever the frame rate,
+// so the same input always produces the same motion.
+export const FIXED_TIME_STEP = 1 / 60;
+
+interface PhysicsWorldOptions {
+    limits?: JointLimits;
+    seed?: number;
+    targets?: TargetObject[];
+    colliders?: Collider[];
+    forceFields?: ForceField[];
+    pins?: { [key: string]: Point };
+    restitution?: { [key: string]: number };
+    compliance?: { [key: string]: number };
+    damping?: { [key: string]: number };
+    attachedMass?: { [key: string]: number };
+    rig?: RigDefinition;
+}
+
+/**
+ * Creates a simulation world around a body built from the given pose.
+ */
+export function createPhysicsWorld(pose: RigPose, { rig = HUMANOID_RIG, limits = getRigTables(rig).limits, seed = 1, targets = [], colliders = [], forceFields = [], pins = {}, restitution = {}, compliance = {}, damping = {}, attachedMass = {} }: PhysicsWorldOptions = {}): PhysicsWorld {
+    const body = createPhysicsBodyFromPose(pose, limits, rig);
+    applyAttachedMass(body, attachedMass);
+    applyPins(body, pins);
+    applyRestitution(body, restitution);
+    applyCompliance(body, compliance);
+    applyDamping(body, damping);
+    return {
+        body,
+        targets,
+        colliders,
+        forceFields,
+        impulses: [],
+        random: createRandom(seed),
+        time: 0,
+    };
+}
+
+/**
+ * Advances the world by one FIXED_TIME_STEP, split into `config.substeps` integrations.
+ */
+export function stepPhysicsWorld(world: PhysicsWorld, config: PhysicsConfig = DEFAULT_PHYSICS_CONFIG): void {
+    const substeps = Math.max(1, Math.round(config.substeps));
+    const dt = FIXED_TIME_STEP / substeps;
+    for (let i = 0; i < substeps; i++) {
+        applyForces(world, world.time + i * dt, dt);
+        updatePhysicsBody(world.body, dt, config, world.colliders);
+        updateTargetObjects(world.targets, world.body, dt, config, world.colliders);
+    }
+    world.time += FIXED_TIME_STEP;
+}
+
+/**
+ * Runs a complete simulation from `pose` without any UI.
+ * Returns the pose after each of the `steps` fixed steps; identical inputs give identical output.
+ */
+export function simulate(pose: PoseData, config: PhysicsConfig, steps: number, options: PhysicsWorldOptions = {}): PoseData[] {
+    const world = createPhysicsWorld(pose, options);
+    const poses: PoseData[] = [];
+    let currentPose = pose;
+    for (let i = 0; i < steps; i++) {
+        stepPhysicsWorld(world, config);
+        currentPose = extractPoseFromPhysicsBody(world.body, currentPose);
+        poses.push(currentPose);
+    }
+    return poses;
+}
+
+
 /**
  * Converts the physics body's particle positions back into a continuous PoseData object.
  */
-export function extractPoseFromPhysicsBody(body: PhysicsBody, previousPose: PoseData): PoseData {
-    const newPose: PoseData = JSON.parse(JSON.stringify(previousPose));
-    const worldAngles: { [key: string]: number } = {};
+export function extractPoseFromPhysicsBody<T extends RigPose = PoseData>(body: PhysicsBody, previousPose: T): T {
+    const newPose: T = JSON.parse(JSON.stringify(previousPose));
+    const { segments } = getRigTables(body.rig);
+    const worldAngles: { [key: string]: number } = { root: 0 };
 
     const getParticlePos = (key: string): Point | undefined => {
         const index = body.particleMap.get(key);
         return index !== undefined ? body.particles[index].pos : undefined;
     };
-    
-    const getPrevPoseAngle = (key: string): number => {
-        const parts = key.split('.');
-        if (parts.length === 2) return (previousPose as any)[parts[0]][parts[1]] ?? 0;
-        return (previousPose as any)[key] ?? 0;
-    };
-    
-    const calculateAngles = (parentKey: string, parentWorldAngle: number) => {
-        hierarchy[parentKey].children.forEach(childKey => {
-            const parentPos = getParticlePos(parentKey);
-            const childPos = getParticlePos(childKey);
-
-            if (parentPos && childPos) {
-                const dx = childPos.x - parentPos.x;
-                const dy = childPos.y - parentPos.y;
-                const childWorldAngle = Math.atan2(dy, dx);
-                
-                const rawLocalAngle = childWorldAngle - parentWorldAngle - (BASE_ANGLES[childKey] || 0);
-                const previousLocalAngle = getPrevPoseAngle(childKey);
-                const finalLocalAngle = previousLocalAngle + shortestAngleDiff(previousLocalAngle, rawLocalAngle);
-
-                const finalChildWorldAngle = parentWorldAngle + (BASE_ANGLES[childKey] || 0) + finalLocalAngle;
-                worldAngles[childKey] = finalChildWorldAngle;
-
-                const parts = childKey.split('.');
-                if (parts.length === 2) {
-                    (newPose as any)[parts[0]][parts[1]] = finalLocalAngle;
-                } else {
-                    (newPose as any)[childKey] = finalLocalAngle;
-                }
-                
-                calculateAngles(childKey, finalChildWorldAngle);
-            }
-        });
-    };
 
     const rootPos = getParticlePos('root');
-    const torsoPos = getParticlePos('torso');
-    const waistPos = getParticlePos('waist');
-    
-    if (rootPos && torsoPos && waistPos) {
-        const torsoWorldAngle = Math.atan2(torsoPos.y - rootPos.y, torsoPos.x - rootPos.x);
-        const waistWorldAngle = Math.atan2(waistPos.y - rootPos.y, waistPos.x - rootPos.x);
-        
-        const rawTorsoAngle = torsoWorldAngle - (BASE_ANGLES['torso'] || 0);
-        newPose.torso = previousPose.torso + shortestAngleDiff(previousPose.torso, rawTorsoAngle);
-
-        const rawWaistAngle = waistWorldAngle - (BASE_ANGLES['waist'] || 0);
-        newPose.waist = previousPose.waist + shortestAngleDiff(previousPose.waist, rawWaistAngle);
-
-        newPose.offset.x = rootPos.x - W / 2;
-        newPose.offset.y = rootPos.y - H / 2;
-        
-        const finalTorsoWorldAngle = (BASE_ANGLES['torso'] || 0) + newPose.torso;
-        const finalWaistWorldAngle = (BASE_ANGLES['waist'] || 0) + newPose.waist;
-        
-        calculateAngles('torso', finalTorsoWorldAngle);
-        calculateAngles('waist', finalWaistWorldAngle);
-    }
-    
+    if (!rootPos) return newPose;
+    newPose.offset.x = rootPos.x - W / 2;
+    newPose.offset.y = rootPos.y - H / 2;
+
+    // Joints are listed parents first, so each parent's angle is known before its children's.
+    body.rig.joints.forEach(joint => {
+        const parentWorldAngle = worldAngles[joint.parent ?? 'root'];
+        if (parentWorldAngle === undefined) return;
+
+        // Each pose angle rotates the segment that *starts* at its joint
+        // (e.g. `left.knee` is the shin), not the segment leading into it.
+        const segment = segments[joint.key];
+        const startPos = segment ? getParticlePos(segment[0]) : undefined;
+        const endPos = segment ? getParticlePos(segment[1]) : undefined;
+
+        const previousLocalAngle = getPoseAngle(previousPose, joint.key);
+        let finalLocalAngle = previousLocalAngle; // Hands and feet have no tip particle and keep their angle
+
+        if (startPos && endPos) {
+            const childWorldAngle = Math.atan2(endPos.y - startPos.y, endPos.x - startPos.x);
+            const rawLocalAngle = childWorldAngle - parentWorldAngle - joint.restAngle;
+            finalLocalAngle = previousLocalAngle + shortestAngleDiff(previousLocalAngle, rawLocalAngle);
+        }
+
+        worldAngles[joint.key] = parentWorldAngle + joint.restAngle + finalLocalAngle;
+        setPoseAngle(newPose, joint.key, finalLocalAngle);
+    });
+
     return newPose;
 }
@@ -0,0 +1,64 @@
+import type { PhysicsSnapshot, PhysicsWorld } from './types';
+
+// A bounded ring buffer of simulation states. Once full, each new snapshot overwrites the oldest.
+export interface PhysicsHistory {
+    snapshots: PhysicsSnapshot[];
+    start: number;    // Slot holding the oldest snapshot
+    length: number;
+    capacity: number;
+}
+
+export function createPhysicsHistory(capacity: number): PhysicsHistory {
+    return { snapshots: [], start: 0, length: 0, capacity };
+}
+
+export function capturePhysicsSnapshot(world: PhysicsWorld): PhysicsSnapshot {
+    return {
+        time: world.time,
+        particles: world.body.particles.map(p => ({ pos: { ...p.pos }, prevPos: { ...p.prevPos } })),
+        targets: world.targets.map(t => ({ ...t, pos: { ...t.pos }, prevPos: { ...t.prevPos } })),
+        randomState: world.random.getState(),
+    };
+}
+
+/**
+ * Puts the world back into a captured state. Masses, pins, limits and the scene are left as
+ * they are, so edits made since the snapshot still apply when the simulation resumes.
+ */
+export function restorePhysicsSnapshot(world: PhysicsWorld, snapshot: PhysicsSnapshot): void {
+    world.time = snapshot.time;
+    snapshot.particles.forEach((state, i) => {
+        const p = world.body.particles[i];
+        if (!p) return;
+        p.pos = { ...state.pos };
+        p.prevPos = { ...state.prevPos };
+    });
+    world.targets = snapshot.targets.map(t => ({ ...t, pos: { ...t.pos }, prevPos: { ...t.prevPos } }));
+    world.random.setState(snapshot.randomState);
+    world.impulses = [];
+}
+
+export function pushPhysicsSnapshot(history: PhysicsHistory, snapshot: PhysicsSnapshot): void {
+    if (history.length < history.capacity) {
+        history.snapshots[(history.start + history.length) % history.capacity] = snapshot;
+        history.length++;
+    } else {
+        history.snapshots[history.start] = snapshot;
+        history.start = (history.start + 1) % history.capacity;
+    }
+}
+
+/**
+ * Returns the snapshot `index` steps after the oldest one kept.
+ */
+export function getPhysicsSnapshot(history: PhysicsHistory, index: number): PhysicsSnapshot | null {
+    if (index < 0 || index >= history.length) return null;
+    return history.snapshots[(history.start + index) % history.capacity];
+}
+
+/**
+ * Forgets every snapshot after `index`, so a simulation resumed from there records a new future.
+ */
+export function truncatePhysicsHistory(history: PhysicsHistory, index: number): void {
+    history.length = Math.max(0, Math.min(history.length, index + 1));
+}
@@ -0,0 +1,130 @@
+import type { BoneScale, Point, PoseData, PoseLibraryEntry, PropAttachment } from './types';
+import { HUMANOID_RIG, getDefaultPose } from './kinematics';
+import { getPoseAngle, setPoseAngle } from './rig';
+import { isAttachment, isNumber, isPoint } from './validation';
+
+const deg = (d: number) => (d * Math.PI) / 180;
+
+// The default pose with some joints turned, e.g. { 'left.hip': deg(-60) }.
+const posed = (angles: { [key: string]: number }, offset: Point = { x: 0, y: 0 }): PoseData => {
+    const pose = getDefaultPose();
+    pose.offset = offset;
+    Object.entries(angles).forEach(([key, angle]) => setPoseAngle(pose, key, angle));
+    return pose;
+};
+
+// Facing right: negative hips swing a thigh forward, positive knees fold the shin back.
+export const BUILT_IN_POSES: PoseLibraryEntry[] = [
+    {
+        name: 'idle',
+        tags: ['stand'],
+        pose: posed({
+            torso: deg(2),
+            'left.shoulder': deg(-80), 'left.elbow': deg(8), 'right.shoulder': deg(80), 'right.elbow': deg(8),
+            'left.hip': deg(4), 'right.hip': deg(-4),
+        }),
+    },
+    {
+        name: 'run',
+        tags: ['locomotion', 'cycle'],
+        pose: posed({
+            abdomen: deg(10), torso: deg(5), neck: deg(-5), head: deg(-5),
+            'left.shoulder': deg(-50), 'left.elbow': deg(60), 'right.shoulder': deg(50), 'right.elbow': deg(10),
+            'left.hip': deg(-60), 'left.knee': deg(70), 'left.foot': deg(-20),
+            'right.hip': deg(30), 'right.knee': deg(100), 'right.foot': deg(30),
+        }, { x: 0, y: -10 }),
+    },
+    {
+        name: 'sit',
+        tags: ['rest'],
+        pose: posed({
+            abdomen: deg(-5),
+            'left.shoulder': deg(-120), 'left.elbow': deg(10), 'right.shoulder': deg(60), 'right.elbow': deg(10),
+            'left.hip': deg(-90), 'left.knee': deg(90), 'left.foot': deg(-80),
+            'right.hip': deg(-90), 'right.knee': deg(90), 'right.foot': deg(-80),
+        }, { x: 0, y: 120 }),
+    },
+    {
+        name: 'jump',
+        tags: ['air'],
+        pose: posed({
+            head: deg(-10),
+            'left.shoulder': deg(45), 'left.elbow': deg(10), 'right.shoulder': deg(-45), 'right.elbow': deg(10),
+            'left.hip': deg(-80), 'left.knee': deg(120), 'left.foot': deg(-30),
+            'right.hip': deg(-70), 'right.knee': deg(110), 'right.foot': deg(-30),
+        }, { x: 0, y: -120 }),
+    },
+];
+
+/**
+ * Adds an entry, replacing any with the same name.
+ */
+export function addToLibrary(library: PoseLibraryEntry[], entry: PoseLibraryEntry): PoseLibraryEntry[] {
+    return [...library.filter(e => e.name !== entry.name), entry];
+}
+
+/**
+ * Entries whose name or one of whose tags contains `query`, ignoring case. An empty query matches all.
+ */
+export function searchLibrary(library: PoseLibraryEntry[], query: string): PoseLibraryEntry[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return library;
+    return library.filter(e => e.name.toLowerCase().includes(q) || e.tags.some(tag => tag.toLowerCase().includes(q)));
+}
+
+// --- Serialization ---
+
+// An object whose every value passes `check`, e.g. a pose's layers.
+const isMapOf = <T>(value: any, check: (item: any) => item is T): value is { [key: string]: T } =>
+    !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(check);
+
+const isScale = (value: any): value is BoneScale => !!value && isNumber(value.length) && isNumber(value.width);
+
+/**
+ * Reads a pose from a library file. Angles the file leaves out (joints added to the rig
+ * since it was saved) come from the default pose; any other angle must be a number.
+ * Scales, prop placements, layers and duration are optional, but must be well formed if present.
+ */
+const readPose = (value: any): PoseData | null => {
+    if (!value || !isPoint(value.offset)) return null;
+    if (value.scale !== undefined && !isMapOf(value.scale, isScale)) return null;
+    if (value.props !== undefined && !isMapOf<PropAttachment>(value.props, isAttachment)) return null;
+    if (value.layers !== undefined && !isMapOf(value.layers, isNumber)) return null;
+    if (value.duration !== undefined && !isNumber(value.duration)) return null;
+    const defaults = getDefaultPose();
+    const pose: PoseData = { ...defaults, ...JSON.parse(JSON.stringify(value)) };
+    for (const joint of HUMANOID_RIG.joints) {
+        const angle = joint.key.split('.').reduce((node: any, part) => node?.[part], value);
+        if (angle === undefined) {
+            setPoseAngle(pose, joint.key, getPoseAngle(defaults, joint.key));
+        } else if (!isNumber(angle)) {
+            return null;
+        }
+    }
+    return pose;
+};
+
+export function serializePoseLibrary(library: PoseLibraryEntry[]): string {
+    return JSON.stringify({ poses: library }, null, 2);
+}
+
+/**
+ * Reads a library saved by `serializePoseLibrary`. Returns null if the text is not a valid library.
+ */
+export function parsePoseLibrary(text: string): PoseLibraryEntry[] | null {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (!data || !Array.isArray(data.poses)) return null;
+    const library: PoseLibraryEntry[] = [];
+    for (const entry of data.poses) {
+        if (!entry || typeof entry.name !== 'string' || !Array.isArray(entry.tags) || !entry.tags.every((tag: unknown) => typeof tag === 'string')) return null;
+        const pose = readPose(entry.pose);
+        if (!pose) return null;
+        library.push({ name: entry.name, tags: entry.tags, pose });
+    }
+    return library;
+}
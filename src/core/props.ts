@@ -0,0 +1,118 @@
+import type { Point, PoseData, PropAttachment, PropDefinition, PropPlacement, RigPose, RigShape, Skeleton } from './types';
+import { W, H } from './kinematics';
+
+export type PropPresetKind = 'hat' | 'sword' | 'cup' | 'ball';
+
+const polygon = (points: Point[]): RigShape => ({ kind: 'polygon', points });
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+/**
+ * Returns a new prop of the given kind, held where it usually belongs. `id` must be unique in the scene.
+ */
+export function createPropPreset(kind: PropPresetKind, id: string): PropDefinition {
+    switch (kind) {
+        case 'hat':
+            return {
+                id, color: '#3D2B56', mass: 0.2, size: { x: 44, y: 76 }, pivot: { x: 0, y: 0 },
+                shape: polygon([{ x: 0, y: -38 }, { x: 8, y: -38 }, { x: 8, y: -22 }, { x: 44, y: -20 }, { x: 44, y: 20 }, { x: 8, y: 22 }, { x: 8, y: 38 }, { x: 0, y: 38 }]),
+                attach: { bone: 'head', offset: { x: 56, y: 0 }, rotation: 0 },
+            };
+        case 'sword':
+            return {
+                id, color: '#808080', mass: 1, size: { x: 190, y: 28 }, pivot: { x: 20, y: 0 },
+                shape: polygon([{ x: 0, y: -4 }, { x: 34, y: -4 }, { x: 34, y: -14 }, { x: 40, y: -14 }, { x: 40, y: -5 }, { x: 175, y: -5 }, { x: 190, y: 0 }, { x: 175, y: 5 }, { x: 40, y: 5 }, { x: 40, y: 14 }, { x: 34, y: 14 }, { x: 34, y: 4 }, { x: 0, y: 4 }]),
+                attach: { bone: 'right.hand', offset: { x: 24, y: 0 }, rotation: -Math.PI / 2 },
+            };
+        case 'cup':
+            return {
+                id, color: '#E07A5F', mass: 0.3, size: { x: 36, y: 30 }, pivot: { x: 18, y: 0 },
+                shape: polygon([{ x: 0, y: -12 }, { x: 36, y: -15 }, { x: 36, y: 15 }, { x: 0, y: 12 }]),
+                attach: { bone: 'left.hand', offset: { x: 24, y: 0 }, rotation: Math.PI / 2 },
+            };
+        case 'ball':
+            return {
+                id, color: '#2A9D8F', mass: 0.5, size: { x: 40, y: 40 }, pivot: { x: 20, y: 0 },
+                shape: { kind: 'ellipse', center: { x: 20, y: 0 }, radius: { x: 20, y: 20 } },
+                attach: { bone: null, offset: { x: W / 2 + 160, y: H - 60 }, rotation: 0 },
+            };
+    }
+}
+
+/**
+ * An id for a new prop of the given kind that no prop in `props` has yet: 'sword', 'sword-2', ...
+ */
+export function getUniquePropId(props: PropDefinition[], kind: string): string {
+    const taken = new Set(props.map(p => p.id));
+    if (!taken.has(kind)) return kind;
+    let n = 2;
+    while (taken.has(`${kind}-${n}`)) n++;
+    return `${kind}-${n}`;
+}
+
+/**
+ * Where a prop is in the given pose: the keyframe's attachment if it has one, else the prop's own.
+ */
+export function getPropAttachment(pose: RigPose, prop: PropDefinition): PropAttachment {
+    return (pose as PoseData).props?.[prop.id] ?? prop.attach;
+}
+
+/**
+ * The world position and angle an attachment puts a prop's pivot at.
+ * Returns null when the skeleton has no such bone.
+ */
+export function getAttachmentTransform(skeleton: Skeleton, attachment: PropAttachment): { pos: Point; angle: number } | null {
+    if (attachment.bone === null) return { pos: { ...attachment.offset }, angle: attachment.rotation };
+    const bone = skeleton.bones.find(b => b.key === attachment.bone);
+    if (!bone) return null;
+    const cos = Math.cos(bone.angle), sin = Math.sin(bone.angle);
+    // Like a chain anchor, the prop stays on the same spot of a squashed or stretched bone.
+    const x = attachment.offset.x * (bone.scale?.x ?? 1), y = attachment.offset.y * (bone.scale?.y ?? 1);
+    return {
+        pos: { x: bone.start.x + x * cos - y * sin, y: bone.start.y + x * sin + y * cos },
+        angle: bone.angle + attachment.rotation,
+    };
+}
+
+/**
+ * Places every prop on the skeleton computed from `pose`. Props held by a bone the rig lacks are left out.
+ */
+export function placeProps(skeleton: Skeleton, pose: RigPose, props: PropDefinition[]): PropPlacement[] {
+    return props.flatMap(prop => {
+        const transform = getAttachmentTransform(skeleton, getPropAttachment(pose, prop));
+        return transform ? [{ prop, ...transform }] : [];
+    });
+}
+
+/**
+ * Hands a prop to another bone (or sets it down with `bone` null) without moving it:
+ * returns the attachment that keeps it exactly where `attachment` has it now.
+ */
+export function reparentAttachment(skeleton: Skeleton, attachment: PropAttachment, bone: string | null): PropAttachment {
+    const transform = getAttachmentTransform(skeleton, attachment);
+    if (!transform) return { ...attachment, bone };
+    if (bone === null) return { bone, offset: transform.pos, rotation: wrapAngle(transform.angle) };
+    const target = skeleton.bones.find(b => b.key === bone);
+    if (!target) return { ...attachment, bone };
+    const dx = transform.pos.x - target.start.x, dy = transform.pos.y - target.start.y;
+    const cos = Math.cos(target.angle), sin = Math.sin(target.angle);
+    return {
+        bone,
+        offset: {
+            x: (dx * cos + dy * sin) / (target.scale?.x ?? 1),
+            y: (-dx * sin + dy * cos) / (target.scale?.y ?? 1),
+        },
+        rotation: wrapAngle(transform.angle - target.angle),
+    };
+}
+
+/**
+ * The extra mass each bone carries in the given pose, from the props it holds.
+ */
+export function getPropMasses(pose: RigPose, props: PropDefinition[]): { [bone: string]: number } {
+    const masses: { [bone: string]: number } = {};
+    props.forEach(prop => {
+        const { bone } = getPropAttachment(pose, prop);
+        if (bone !== null && prop.mass > 0) masses[bone] = (masses[bone] ?? 0) + prop.mass;
+    });
+    return masses;
+}
@@ -0,0 +1,21 @@
+import type { SeededRandom } from './types';
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32) returning values in [0, 1).
+ * The same seed always produces the same sequence, which keeps simulations reproducible;
+ * `getState` and `setState` save and restore where in the sequence it is.
+ */
+export function createRandom(seed: number): SeededRandom {
+    let state = seed >>> 0;
+    const next = () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    return Object.assign(next, {
+        getState: () => state,
+        setState: (value: number) => { state = value >>> 0; },
+    });
+}
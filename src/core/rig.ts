@@ -0,0 +1,148 @@
+import type { Point, RigDefinition, RigJoint, RigPose, JointLimits } from './types';
+import { isNumber, isPoint, isShape } from './validation';
+
+// Lookup tables derived from a rig, in the shapes the solvers have always used.
+export type RigTables = {
+    hierarchy: { [key: string]: { parent: string | null; children: string[] } }; // Joint tree, from 'root'
+    restAngles: { [key: string]: number };
+    segments: { [key: string]: [string, string] }; // The particle pair each joint's angle rotates
+    mounts: [string, string][];                    // Parent and joint for bones hung off the side of their parent
+    shared: { [key: string]: string };             // Joints that sit exactly on another's particle, and share it
+    masses: { [key: string]: number };
+    limits: JointLimits;
+};
+
+const tablesCache = new WeakMap<RigDefinition, RigTables>();
+
+const isZero = (p: Point) => p.x === 0 && p.y === 0;
+
+export function getRigJoint(rig: RigDefinition, key: string): RigJoint | undefined {
+    return rig.joints.find(j => j.key === key);
+}
+
+/**
+ * Builds the rig's lookup tables once and reuses them for as long as the rig object lives.
+ */
+export function getRigTables(rig: RigDefinition): RigTables {
+    const cached = tablesCache.get(rig);
+    if (cached) return cached;
+
+    const hierarchy: RigTables['hierarchy'] = { root: { parent: null, children: [] } };
+    const restAngles: RigTables['restAngles'] = {};
+    const masses: RigTables['masses'] = { root: rig.rootMass };
+    const limits: JointLimits = {};
+    rig.joints.forEach(joint => {
+        const parent = joint.parent ?? 'root';
+        hierarchy[joint.key] = { parent, children: [] };
+        hierarchy[parent]?.children.push(joint.key);
+        restAngles[joint.key] = joint.restAngle;
+        masses[joint.key] = joint.mass;
+        if (joint.limit) limits[joint.key] = { ...joint.limit };
+    });
+
+    // A joint's particle sits at its bone's start when its pivot is zero; otherwise the bone turns
+    // about the parent's particle. The far end is the joint's own particle, or a child's pinned
+    // straight to the tip. Bones with nothing at their tip (hands, feet) get no segment.
+    const segments: RigTables['segments'] = {};
+    const mounts: RigTables['mounts'] = [];
+    const shared: RigTables['shared'] = {};
+    rig.joints.forEach(joint => {
+        // A bone starting right where its parent's particle is (e.g. a leg hung from the
+        // end of a spine) has its joint on that particle, so the two must move as one.
+        const parent = joint.parent ? getRigJoint(rig, joint.parent) : undefined;
+        const parentOnTip = !joint.parent || (!!parent && parent.pivot === parent.length);
+        if (joint.pivot === 0 && isZero(joint.attach) && parentOnTip) {
+            shared[joint.key] = joint.parent ? shared[joint.parent] ?? joint.parent : 'root';
+        }
+
+        const start = joint.pivot === 0 ? joint.key : joint.parent ?? 'root';
+        const tip = rig.joints.find(c => c.parent === joint.key && c.pivot === 0 && isZero(c.attach));
+        const end = joint.pivot > 0 ? joint.key : tip?.key;
+        if (end && end !== start) segments[joint.key] = [start, end];
+        if (joint.parent && !isZero(joint.attach)) mounts.push([joint.parent, joint.key]);
+    });
+
+    const tables = { hierarchy, restAngles, segments, mounts, shared, masses, limits };
+    tablesCache.set(rig, tables);
+    return tables;
+}
+
+/**
+ * Every joint key, back to front: the rig's draw order, then any joints it leaves out.
+ */
+export function getRigDrawOrder(rig: RigDefinition): string[] {
+    const listed = (rig.drawOrder ?? []).filter(key => getRigJoint(rig, key));
+    return [...listed, ...rig.joints.map(joint => joint.key).filter(key => !listed.includes(key))];
+}
+
+/**
+ * Reads a joint's angle from a pose. Missing angles read as zero.
+ */
+export function getPoseAngle(pose: RigPose, key: string): number {
+    const value = key.split('.').reduce((node: any, part) => node?.[part], pose);
+    return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Writes a joint's angle into a pose, creating the nested groups it needs.
+ */
+export function setPoseAngle(pose: RigPose, key: string, angle: number): void {
+    const parts = key.split('.');
+    let node: any = pose;
+    parts.slice(0, -1).forEach(part => {
+        if (typeof node[part] !== 'object' || node[part] === null) node[part] = {};
+        node = node[part];
+    });
+    node[parts[parts.length - 1]] = angle;
+}
+
+/**
+ * The rig's default pose, at the centre of the canvas.
+ */
+export function createRigPose(rig: RigDefinition): RigPose {
+    const pose: RigPose = { offset: { x: 0, y: 0 } };
+    rig.joints.forEach(joint => setPoseAngle(pose, joint.key, joint.defaultAngle));
+    return pose;
+}
+
+// --- Serialization ---
+
+// Names the pose and the physics body already use for something else.
+const RESERVED_KEYS = ['root', 'offset', 'scale'];
+
+const isJoint = (value: any): value is RigJoint =>
+    !!value &&
+    typeof value.key === 'string' && !RESERVED_KEYS.includes(value.key.split('.')[0]) &&
+    (value.parent === null || typeof value.parent === 'string') &&
+    isPoint(value.attach) &&
+    ['restAngle', 'defaultAngle', 'length', 'width', 'pivot', 'mass'].every(key => isNumber(value[key])) &&
+    (value.limit === undefined || (isNumber(value.limit.min) && isNumber(value.limit.max))) &&
+    typeof value.color === 'string' &&
+    isShape(value.shape);
+
+export function serializeRig(rig: RigDefinition): string {
+    return JSON.stringify(rig, null, 2);
+}
+
+/**
+ * Reads a rig saved by `serializeRig`. Returns null if the text is not a valid rig, including
+ * when a joint is listed before its parent or a key is used twice.
+ */
+export function parseRig(text: string): RigDefinition | null {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (!data || typeof data.name !== 'string' || !isNumber(data.rootMass) || !Array.isArray(data.joints)) return null;
+    if (!data.joints.every(isJoint)) return null;
+    if (data.drawOrder !== undefined && !(Array.isArray(data.drawOrder) && data.drawOrder.every((key: unknown) => typeof key === 'string'))) return null;
+    const seen = new Set<string>();
+    for (const joint of data.joints as RigJoint[]) {
+        if (seen.has(joint.key) || (joint.parent !== null && !seen.has(joint.parent))) return null;
+        seen.add(joint.key);
+    }
+    if (data.drawOrder?.some((key: string) => !seen.has(key))) return null;
+    return { name: data.name, rootMass: data.rootMass, joints: data.joints, ...(data.drawOrder ? { drawOrder: data.drawOrder } : {}) };
+}
@@ -0,0 +1,49 @@
+import type { Collider, ForceField, PhysicsScene, PropDefinition, SurfaceMaterial } from './types';
+import { isAttachment, isNumber, isPoint, isShape } from './validation';
+
+const COLLIDER_KINDS = ['floor', 'slope', 'stairs', 'platform', 'polygon'];
+const FORCE_FIELD_KINDS = ['wind', 'explosion', 'attractor'];
+
+const isMaterial = (value: any): value is SurfaceMaterial => !!value && isNumber(value.friction) && isNumber(value.restitution);
+
+const isCollider = (value: any): value is Collider =>
+    !!value &&
+    COLLIDER_KINDS.includes(value.kind) &&
+    Array.isArray(value.points) && value.points.length >= 2 && value.points.every(isPoint) &&
+    isMaterial(value.material);
+
+const isForceField = (value: any): value is ForceField =>
+    !!value &&
+    FORCE_FIELD_KINDS.includes(value.kind) &&
+    isPoint(value.pos) &&
+    ['radius', 'strength', 'direction', 'turbulence', 'time'].every(key => isNumber(value[key]));
+
+const isProp = (value: any): value is PropDefinition =>
+    !!value &&
+    typeof value.id === 'string' && typeof value.color === 'string' &&
+    isShape(value.shape) &&
+    (value.image === undefined || typeof value.image === 'string') &&
+    isPoint(value.size) && isPoint(value.pivot) && isNumber(value.mass) &&
+    isAttachment(value.attach);
+
+export function serializeScene(scene: PhysicsScene): string {
+    return JSON.stringify(scene, null, 2);
+}
+
+/**
+ * Reads a scene saved by `serializeScene`. Returns null if the text is not a valid scene.
+ * Scenes saved before props existed load with none.
+ */
+export function parseScene(text: string): PhysicsScene | null {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (!data || !Array.isArray(data.colliders) || !Array.isArray(data.forceFields)) return null;
+    if (!data.colliders.every(isCollider) || !data.forceFields.every(isForceField)) return null;
+    const props = data.props ?? [];
+    if (!Array.isArray(props) || !props.every(isProp)) return null;
+    return { colliders: data.colliders, forceFields: data.forceFields, props };
+}
@@ -0,0 +1,21 @@
+import type { PoseData } from './types';
+
+// The state managed by useHistory is the entire timeline structure.
+export interface TimelineState {
+  keyframes: PoseData[];
+  currentFrame: number;
+}
+
+/**
+ * Inserts poses as new keyframes directly after `afterIndex` and selects the last one.
+ * Returns a new state, so the whole insertion is a single history entry.
+ */
+export function insertKeyframes(state: TimelineState, afterIndex: number, poses: PoseData[]): TimelineState {
+  if (poses.length === 0) return state;
+  const keyframes = [...state.keyframes];
+  keyframes.splice(afterIndex + 1, 0, ...poses);
+  return {
+    keyframes,
+    currentFrame: afterIndex + poses.length,
+  };
+}
@@ -2,8 +2,10 @@
 // All values are in radians.
 export type PoseData = {
   offset: { x: number; y: number };
-  torso: number;
+  abdomen: number; // Turns the whole upper body
+  torso: number;   // The chest, bending on the abdomen
   waist: number;
+  neck: number;
   head: number;
   left: {
     shoulder: number;
@@ -21,8 +23,26 @@ export type PoseData = {
     knee: number;
     foot: number;
   };
+  scale?: BoneScales; // Squash and stretch; missing bones keep the rig's proportions
+  props?: { [id: string]: PropAttachment }; // Where props are in this keyframe; missing ones are where the prop says
+  layers?: { [key: string]: number }; // Draw layers: higher draws in front; bones without one take their parent's, or 0
+  duration?: number; // Seconds playback takes from this keyframe to the next, e.g. a recording's sample spacing; one frame at the playback rate when missing
 };
 
+// Multipliers on a bone's rig length and width. Children attached along or across it move with it.
+export type BoneScale = { length: number; width: number };
+export type BoneScales = { [key: string]: BoneScale };
+
+// A named pose kept for reuse, with tags to find it by.
+export type PoseLibraryEntry = {
+  name: string;
+  tags: string[];
+  pose: PoseData;
+};
+
+// Allowed local angle range per PoseData key, in radians.
+export type JointLimits = { [key: string]: { min: number; max: number } };
+
 // --- Computed Types for Rendering ---
 
 export type Point = {
@@ -38,6 +58,9 @@ export type BoneSegment = {
     angle: number; // The world-space angle for rendering
     shape: 'line' | 'polygon' | 'curve' | 'circle' | 'custom';
     vertices?: Point[];
+    draw?: RigShape; // The rig's outline for 'custom' bones
+    scale?: Point;   // Length (x) and width (y) multipliers the outline is drawn with
+    color?: string;
 };
 
 export type Skeleton = {
@@ -45,6 +68,51 @@ export type Skeleton = {
     bones: BoneSegment[];
 };
 
+// --- Rig Types ---
+
+// A bone's outline in its own space: x runs from the bone's start along it, y across it.
+export type RigShape =
+    | { kind: 'polygon'; points: Point[] }
+    | { kind: 'ellipse'; center: Point; radius: Point }
+    | { kind: 'none' };
+
+// One bone of a rig and the joint that rotates it. The key is also its path in the pose:
+// `left.elbow` is read from pose.left.elbow, `tail` from pose.tail.
+export type RigJoint = {
+    key: string;
+    parent: string | null; // Bone it hangs from; null hangs it from the root
+    attach: Point;         // Where the bone starts, in the parent's space from the parent's end (or the root)
+    restAngle: number;     // Angle from the parent bone when the pose angle is zero
+    defaultAngle: number;  // Pose angle in the rig's default pose
+    length: number;
+    width: number;         // Used for hit-detection, collision and asset binding
+    pivot: number;         // Where the joint's handle and particle sit along the bone, in px from its start
+    mass: number;
+    limit?: { min: number; max: number }; // Allowed pose angle range; unrestricted when missing
+    color: string;
+    shape: RigShape;
+};
+
+// A whole character, saved as JSON. Joints are listed parents first.
+export type RigDefinition = {
+    name: string;
+    rootMass: number;
+    joints: RigJoint[];
+    drawOrder?: string[]; // Joint keys back to front; unlisted joints are drawn after, in list order
+};
+
+// A pose for any rig: an offset plus one angle per joint, nested by the dots in the joint keys,
+// and an optional `scale`. PoseData is the humanoid's.
+export type RigPose = { offset: Point; scale?: BoneScales; [key: string]: any };
+
+// How a pose stands: where its weight is and what it stands on.
+export type Balance = {
+    centerOfMass: Point;
+    support: Point[];   // Convex hull of the grounded feet; empty when nothing is grounded
+    isBalanced: boolean;
+    margin: number;     // Horizontal px from the centre of mass to the nearer support edge; negative when outside
+};
+
 // --- Physics Engine Types ---
 
 export type PhysicsParticle = {
@@ -52,18 +120,87 @@ export type PhysicsParticle = {
   pos: Point;
   prevPos: Point;
   mass: number;
+  restitution?: number; // Own bounciness; replaces the surface's when set
 };
 
 export type PhysicsConstraint = {
   particleAIndex: number;
   particleBIndex: number;
   restLength: number;
+  compliance?: number; // XPBD only: overrides PhysicsConfig.compliance for this bone
+  damping?: number;    // XPBD only: overrides PhysicsConfig.constraintDamping for this bone
+};
+
+// Keeps the angle between two segments inside a range. The limited segment
+// rotates around its start particle; the reference segment is its parent bone.
+export type PhysicsAngularConstraint = {
+  key: string;
+  parentStartIndex: number;
+  parentEndIndex: number;
+  startIndex: number;
+  endIndex: number;
+  baseAngle: number; // Rest offset from BASE_ANGLES, so min/max match PoseData values
+  min: number;
+  max: number;
+};
+
+// Collision shape for one bone: the segment between two particles swept by a radius.
+// Hands and feet have no particle at their tip (startIndex === endIndex); `tip` carries theirs
+// out to the drawn length, along the parent bone, so the whole hand or foot makes contact.
+export type PhysicsCapsule = {
+  key: string;
+  startIndex: number;
+  endIndex: number;
+  radius: number;
+  tip?: { fromIndex: number; length: number }; // The tip lies `length` past startIndex, on the line from fromIndex through it
 };
 
 export type PhysicsBody = {
   particles: PhysicsParticle[];
   constraints: PhysicsConstraint[];
+  angularConstraints: PhysicsAngularConstraint[];
+  capsules: PhysicsCapsule[];
   particleMap: Map<string, number>;
+  pins: { [key: string]: Point }; // Anchored particles: zero mass, held at these positions
+  attachedMass: { [id: string]: number }; // Carried on top of the rig's mass, e.g. props, by particle id
+  motors: PhysicsMotors | null;
+  rig: RigDefinition;             // The rig the body was built from, to read poses back out
+};
+
+// Drives the simulated body toward a keyframed pose ("active ragdoll").
+export type PhysicsMotors = {
+  target: PoseData;
+  strength: number;                          // Global blend: 0 = pure ragdoll, 1 = pure animation
+  jointStrengths: { [key: string]: number }; // Per-joint motor strength 0..1; 'root' drives position
+};
+
+export type ActiveRagdollSettings = {
+  enabled: boolean;
+  strength: number;
+  jointStrengths: { [key: string]: number };
+};
+
+// Tunable simulation parameters. Presets live in core/physics.ts.
+// 'pbd' corrects a fixed fraction of each error per iteration; 'xpbd' gives constraints a
+// physical compliance, so they behave the same at any iteration count, substep count or frame rate.
+export type PhysicsSolver = 'pbd' | 'xpbd';
+
+export type PhysicsConfig = {
+  gravity: Point;          // Acceleration in px/s^2
+  friction: number;        // Per-step velocity retention (1 = no damping)
+  stiffness: number;       // PBD only: fraction of constraint error corrected per iteration
+  solverIterations: number;
+  substeps: number;        // Integration substeps per fixed step
+  edgeMaterial: SurfaceMaterial; // The canvas edges
+  solver: PhysicsSolver;
+  compliance: number;        // XPBD only: stretch per unit force; 0 is rigid
+  constraintDamping: number; // XPBD only: resists the speed of stretching, as force per px/s
+};
+
+// How a surface answers a contact.
+export type SurfaceMaterial = {
+  friction: number;    // Share of sliding speed lost per contact step (0 = ice, 1 = sticks)
+  restitution: number; // Share of impact speed given back as a bounce (0 = dead stop)
 };
 
 // The new interactive object for physics mode
@@ -71,4 +208,118 @@ export type TargetObject = {
   pos: Point;
   prevPos: Point;
   radius: number;
-};
\ No newline at end of file
+  mass: number;
+};
+// A static, user-placed surface the simulation collides against.
+// Every shape (floor, slope, stairs, platform) is stored as a closed polygon.
+export type ColliderKind = 'floor' | 'slope' | 'stairs' | 'platform' | 'polygon';
+
+export type Collider = {
+  kind: ColliderKind;
+  points: Point[];
+  material: SurfaceMaterial;
+};
+
+export type ForceFieldKind = 'wind' | 'explosion' | 'attractor';
+
+// A placeable force emitter. Not every field is used by every kind.
+export type ForceField = {
+  kind: ForceFieldKind;
+  pos: Point;
+  radius: number;     // Reach in px; full strength at the centre, fading to nothing at the edge. 0 = whole canvas
+  strength: number;   // Wind: speed in px/s. Explosion: impulse. Attractor: px/s^2 (negative repels)
+  direction: number;  // Wind only: radians, 0 blows to the right
+  turbulence: number; // Wind only: 0..1 random gusting
+  time: number;       // Explosion only: seconds after the simulation starts that it goes off
+};
+
+// Everything placed in the physics scene around the puppet; what gets saved and loaded.
+export type PhysicsScene = {
+  colliders: Collider[];
+  forceFields: ForceField[];
+  props: PropDefinition[];
+};
+
+// A one-off kick to a named particle, delivered at the start of the next step.
+export type PhysicsImpulse = {
+  key: string;
+  impulse: Point; // Mass * px/s, so light parts fly further
+};
+
+// A seeded random generator whose position in its sequence can be saved and put back.
+export type SeededRandom = {
+  (): number;                        // Next value in [0, 1)
+  getState: () => number;
+  setState: (state: number) => void;
+};
+
+// Everything a running simulation carries from one fixed step to the next.
+export type PhysicsWorld = {
+  body: PhysicsBody;
+  targets: TargetObject[];
+  colliders: Collider[];
+  forceFields: ForceField[];
+  impulses: PhysicsImpulse[]; // Queued by applyImpulse
+  random: SeededRandom; // The only source of randomness inside a simulation
+  time: number;         // Simulated seconds since the world was created
+};
+
+// The moving parts of a PhysicsWorld at one instant, kept so a simulation can be rewound.
+export type PhysicsSnapshot = {
+  time: number;
+  particles: { pos: Point; prevPos: Point }[]; // In body.particles order
+  targets: TargetObject[];
+  randomState: number; // So turbulence replays the same gusts after a rewind
+};
+
+// --- Secondary Motion Types ---
+
+export type ChainStyle = 'stroke' | 'fill';
+
+// A dangling Verlet chain hung from a bone: hair, a cape, a tail, a ribbon.
+export type ChainDefinition = {
+  bone: string;      // Key of the bone it hangs from
+  anchor: Point;     // Attachment in the bone's local frame: x along the bone from its start, y across it
+  angle: number;     // Rest direction of the first segment, in radians relative to the bone
+  segments: number;
+  length: number;    // Total length in px
+  stiffness: number; // 0..1: 0 hangs like rope, 1 holds its rest shape
+  damping: number;   // 0..1: fraction of velocity lost each step
+  width: number;     // At the root; fill ribbons taper towards the tip
+  style: ChainStyle;
+  color: string;
+};
+
+// The simulated points of one chain. points[0] is pinned to the anchor.
+export type ChainState = {
+  points: Point[];
+  prevPoints: Point[];
+};
+
+// --- Prop Types ---
+
+// Where a prop is: held by a bone, or set down on the canvas.
+export type PropAttachment = {
+  bone: string | null; // null leaves it lying in the world
+  offset: Point;       // In the bone's local frame like a chain anchor; canvas px when set down
+  rotation: number;    // Radians, relative to the bone (or the canvas)
+};
+
+// A separate object the puppet can carry: a hat, a sword, a cup.
+export type PropDefinition = {
+  id: string;       // Unique in the scene; also its name in the UI
+  shape: RigShape;  // In the prop's own space; x runs along it like a bone
+  image?: string;   // Data URL drawn instead of the shape, over x 0..size.x and y ±size.y / 2
+  size: Point;
+  pivot: Point;     // The spot, in its own space, that sits on the attachment
+  color: string;
+  mass: number;     // Added to the holding bone's particle in the simulation
+  attach: PropAttachment; // Where it is until a keyframe moves it
+};
+
+// A prop placed for drawing: its pivot's world position and its world angle.
+export type PropPlacement = {
+  prop: PropDefinition;
+  pos: Point;
+  angle: number;
+};
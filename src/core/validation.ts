@@ -0,0 +1,17 @@
+import type { Point, PropAttachment, RigShape } from './types';
+
+// Checks for values read back from saved files (rigs, scenes, pose libraries).
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isPoint = (value: any): value is Point => !!value && isNumber(value.x) && isNumber(value.y);
+
+export const isShape = (value: any): value is RigShape =>
+    !!value && (
+        (value.kind === 'polygon' && Array.isArray(value.points) && value.points.every(isPoint)) ||
+        (value.kind === 'ellipse' && isPoint(value.center) && isPoint(value.radius)) ||
+        value.kind === 'none'
+    );
+
+export const isAttachment = (value: any): value is PropAttachment =>
+    !!value && (value.bone === null || typeof value.bone === 'string') && isPoint(value.offset) && isNumber(value.rotation);
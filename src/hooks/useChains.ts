@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef } from 'react';
+import type { ChainDefinition, ChainState, Collider, Point, PoseData, RigDefinition } from '../core/types';
+import { computeRigSkeleton, HUMANOID_RIG } from '../core/kinematics';
+import { getChainAnchor, createChainState, stepChain } from '../core/chains';
+import { FIXED_TIME_STEP, DEFAULT_PHYSICS_CONFIG } from '../core/physics';
+
+// Upper bound on fixed steps per animation frame, so a stalled tab can't trigger a catch-up spiral.
+const MAX_STEPS_PER_FRAME = 8;
+const NO_CHAINS: ChainDefinition[] = [];
+const NO_COLLIDERS: Collider[] = [];
+
+interface ChainsOptions {
+  pose: PoseData; // Whatever is on screen: a keyframe, playback or the simulation
+  chains?: ChainDefinition[];
+  gravity?: Point;
+  colliders?: Collider[];
+  rig?: RigDefinition; // The rig the pose is for
+}
+
+/**
+ * Simulates secondary chains hung from the displayed pose. It runs all the time, independent of
+ * playback and physics, so chains settle and follow through however the body is moved.
+ */
+export function useChains({ pose, chains = NO_CHAINS, gravity = DEFAULT_PHYSICS_CONFIG.gravity, colliders = NO_COLLIDERS, rig = HUMANOID_RIG }: ChainsOptions): ChainState[] {
+    const [states, setStates] = useState<ChainState[]>([]);
+    const statesRef = useRef<(ChainState | null)[]>([]);
+    // Read by the animation loop so changes apply without restarting it.
+    const poseRef = useRef<PoseData>(pose);
+    poseRef.current = pose;
+    const chainsRef = useRef<ChainDefinition[]>(chains);
+    chainsRef.current = chains;
+    const gravityRef = useRef<Point>(gravity);
+    gravityRef.current = gravity;
+    const collidersRef = useRef<Collider[]>(colliders);
+    collidersRef.current = colliders;
+    const rigRef = useRef<RigDefinition>(rig);
+    rigRef.current = rig;
+    const hasChains = chains.length > 0;
+
+    useEffect(() => {
+        if (!hasChains) {
+            statesRef.current = [];
+            setStates([]);
+            return;
+        }
+
+        let frameId: number | undefined;
+        let lastTime = performance.now();
+        let accumulator = 0;
+
+        const animate = (time: number) => {
+            accumulator = Math.min(accumulator + (time - lastTime) / 1000, FIXED_TIME_STEP * MAX_STEPS_PER_FRAME);
+            lastTime = time;
+
+            const skeleton = computeRigSkeleton(rigRef.current, poseRef.current);
+            const definitions = chainsRef.current;
+            const anchors = definitions.map(chain => getChainAnchor(skeleton, chain));
+            // A chain whose bone or segment count changed starts over at rest.
+            const current = definitions.map((chain, i) => {
+                const anchor = anchors[i];
+                const state = statesRef.current[i];
+                if (!anchor) return null;
+                return state && state.points.length === chain.segments + 1 ? state : createChainState(chain, anchor);
+            });
+            statesRef.current = current;
+
+            let stepped = false;
+            while (accumulator >= FIXED_TIME_STEP) {
+                definitions.forEach((chain, i) => {
+                    const anchor = anchors[i], state = current[i];
+                    if (anchor && state) stepChain(state, chain, anchor, gravityRef.current, FIXED_TIME_STEP, collidersRef.current);
+                });
+                accumulator -= FIXED_TIME_STEP;
+                stepped = true;
+            }
+
+            // Chains on a missing bone are kept as empty, so indices still match the definitions.
+            if (stepped) setStates(current.map(s => s ? { points: s.points.map(p => ({ ...p })), prevPoints: [] } : { points: [], prevPoints: [] }));
+            frameId = requestAnimationFrame(animate);
+        };
+
+        frameId = requestAnimationFrame(animate);
+        return () => { if (frameId) cancelAnimationFrame(frameId); };
+    }, [hasChains]);
+
+    return states;
+}
@@ -4,6 +4,7 @@ import { History, getInitialHistory, pushHistory, undoHistory, redoHistory } fro
 export type HistoryManager<T> = {
   state: T;
   setState: (newState: T) => void;
+  reset: (newState: T) => void; // Starts over from this state, with nothing to undo
   undo: () => void;
   redo: () => void;
   canUndo: boolean;
@@ -17,6 +18,10 @@ export function useHistory<T>(initialState: T): HistoryManager<T> {
     setHistory(currentHistory => pushHistory(currentHistory, newState));
   }, []);
 
+  const reset = useCallback((newState: T) => {
+    setHistory(getInitialHistory(newState));
+  }, []);
+
   const undo = useCallback(() => {
     setHistory(undoHistory);
   }, []);
@@ -31,6 +36,7 @@ export function useHistory<T>(initialState: T): HistoryManager<T> {
   return {
     state: history.present,
     setState,
+    reset,
     undo,
     redo,
     canUndo,
@@ -1,20 +1,176 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import type { PoseData, PhysicsBody } from '../core/types';
-import { createPhysicsBodyFromPose, updatePhysicsBody, extractPoseFromPhysicsBody } from '../core/physics';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { PoseData, RigDefinition, PhysicsWorld, PhysicsConfig, Point, TargetObject, JointLimits, Collider, ActiveRagdollSettings, ForceField } from '../core/types';
+import { createPhysicsWorld, stepPhysicsWorld, createTargetObject, extractPoseFromPhysicsBody, applyJointLimits, applyPins, applyRestitution, applyCompliance, applyDamping, applyAttachedMass, findParticleNear, DEFAULT_PHYSICS_CONFIG, FIXED_TIME_STEP } from '../core/physics';
+import { jointConstraints, HUMANOID_RIG } from '../core/kinematics';
+import { applyImpulse } from '../core/forces';
+import { type PhysicsHistory, createPhysicsHistory, capturePhysicsSnapshot, restorePhysicsSnapshot, pushPhysicsSnapshot, getPhysicsSnapshot, truncatePhysicsHistory } from '../core/physicsHistory';
+
+// How close (in canvas px) a click must land to a joint to grab it.
+const GRAB_RADIUS = 20;
+// Upper bound on fixed steps per animation frame, so a stalled tab can't trigger a catch-up spiral.
+const MAX_STEPS_PER_FRAME = 8;
+// Fixed steps kept for rewinding: ten seconds of simulation.
+const HISTORY_CAPACITY = 600;
+const NO_COLLIDERS: Collider[] = [];
+const NO_FORCE_FIELDS: ForceField[] = [];
+const NO_PINS: { [key: string]: Point } = {};
+const NO_RESTITUTION: { [key: string]: number } = {};
+const NO_COMPLIANCE: { [key: string]: number } = {};
+const NO_DAMPING: { [key: string]: number } = {};
+const NO_ATTACHED_MASS: { [key: string]: number } = {};
+const RAGDOLL_OFF: ActiveRagdollSettings = { enabled: false, strength: 0, jointStrengths: {} };
 
 interface PhysicsOptions {
   targetPose: PoseData;
   isEnabled: boolean;
+  config?: PhysicsConfig;
+  jointLimits?: JointLimits;
+  seed?: number;
+  colliders?: Collider[];
+  forceFields?: ForceField[];
+  pins?: { [key: string]: Point };
+  onPinsChange?: (pins: { [key: string]: Point }) => void;
+  activeRagdoll?: ActiveRagdollSettings; // Motors that keep driving the body towards targetPose
+  restitution?: { [key: string]: number }; // Per-joint bounciness, overriding the surfaces'
+  compliance?: { [key: string]: number };  // XPBD stretchiness of each joint's bone (see the rig's segments), overriding the config's
+  damping?: { [key: string]: number };     // XPBD damping of each joint's bone, keyed the same way, overriding the config's
+  attachedMass?: { [key: string]: number }; // Carried by each joint's bone on top of its own, e.g. props
+  rig?: RigDefinition; // The body to build; read when physics is switched on
+}
+
+// Mouse input for the running simulation, in canvas coordinates.
+export interface PhysicsPointer {
+  down: (pos: Point, remove: boolean) => void;
+  move: (pos: Point) => void;
+  up: () => void;
+}
+
+// Captures the running simulation as poses, for baking into keyframes.
+export interface PhysicsRecorder {
+  start: (rate: number, duration: number, onComplete: (poses: PoseData[]) => void) => void;
+  stop: () => void; // Finishes early, delivering what has been captured so far
+  progress: number | null; // 0..1 while recording, null otherwise
+}
+
+// Rewinds and steps through the recent history of the running simulation.
+export interface PhysicsScrubber {
+  frame: number;     // Index of the shown step in the history; the last one is the newest
+  length: number;    // Steps currently kept
+  time: number;      // Simulated seconds at `frame`
+  isPaused: boolean;
+  pause: () => void;
+  resume: () => void; // Continues from `frame`, discarding any steps after it
+  seek: (frame: number) => void; // Pauses and shows an earlier step
+  step: (delta: number) => void; // Pauses and moves by whole steps, simulating new ones past the end
+}
+
+interface ScrubState {
+  frame: number;
+  length: number;
+  time: number;
+  isPaused: boolean;
+}
+
+const SCRUB_IDLE: ScrubState = { frame: 0, length: 0, time: 0, isPaused: false };
+
+interface Recording {
+  stepsPerSample: number;
+  stepsUntilSample: number;
+  sampleCount: number;
+  poses: PoseData[];
+  onComplete: (poses: PoseData[]) => void;
 }
 
-export function usePhysics({ targetPose, isEnabled }: PhysicsOptions): { pose: PoseData } {
+interface PhysicsResult {
+  pose: PoseData;
+  targets: TargetObject[];
+  pointer: PhysicsPointer;
+  recorder: PhysicsRecorder;
+  scrubber: PhysicsScrubber;
+  applyImpulse: (key: string, impulse: Point) => void; // Kicks a named particle of the running body
+}
+
+export function usePhysics({ targetPose, isEnabled, config = DEFAULT_PHYSICS_CONFIG, jointLimits = jointConstraints, seed = 1, colliders = NO_COLLIDERS, forceFields = NO_FORCE_FIELDS, pins = NO_PINS, onPinsChange, activeRagdoll = RAGDOLL_OFF, restitution = NO_RESTITUTION, compliance = NO_COMPLIANCE, damping = NO_DAMPING, attachedMass = NO_ATTACHED_MASS, rig = HUMANOID_RIG }: PhysicsOptions): PhysicsResult {
     const [physicalPose, setPhysicalPose] = useState<PoseData>(targetPose);
-    const physicsBodyRef = useRef<PhysicsBody | null>(null);
+    const [targets, setTargets] = useState<TargetObject[]>([]);
+    const targetsRef = useRef<TargetObject[]>([]);
+    // The ball under the mouse follows it kinematically; its last step becomes its velocity on release.
+    const heldTargetRef = useRef<{ index: number; pos: Point } | null>(null);
+    // A grabbed body particle becomes a zero-mass kinematic handle; its real mass is restored on release.
+    const heldParticleRef = useRef<{ index: number; pos: Point; mass: number } | null>(null);
+    // Dragging an anchored joint moves its pin instead of lifting it off.
+    const heldPinRef = useRef<string | null>(null);
+    const worldRef = useRef<PhysicsWorld | null>(null);
+    const recordingRef = useRef<Recording | null>(null);
+    const historyRef = useRef<PhysicsHistory>(createPhysicsHistory(HISTORY_CAPACITY));
+    // Index of the history step the world currently holds.
+    const frameRef = useRef(0);
+    const isPausedRef = useRef(false);
+    const [scrubState, setScrubState] = useState<ScrubState>(SCRUB_IDLE);
+    const [recordingProgress, setRecordingProgress] = useState<number | null>(null);
     // FIX: Explicitly pass undefined to useRef to satisfy stricter TypeScript checks or linters.
     const animationFrameId = useRef<number | undefined>(undefined);
     // FIX: Explicitly pass undefined to useRef to satisfy stricter TypeScript checks or linters.
     const lastTimeRef = useRef<number | undefined>(undefined);
+    // Real time not yet consumed by fixed steps.
+    const accumulatorRef = useRef<number>(0);
     const latestPoseRef = useRef<PoseData>(targetPose);
+    // Read by the animation loop so slider changes apply without restarting the simulation.
+    const configRef = useRef<PhysicsConfig>(config);
+    configRef.current = config;
+    const jointLimitsRef = useRef<JointLimits>(jointLimits);
+    jointLimitsRef.current = jointLimits;
+    const seedRef = useRef<number>(seed);
+    seedRef.current = seed;
+    const collidersRef = useRef<Collider[]>(colliders);
+    collidersRef.current = colliders;
+    const forceFieldsRef = useRef<ForceField[]>(forceFields);
+    forceFieldsRef.current = forceFields;
+    const pinsRef = useRef<{ [key: string]: Point }>(pins);
+    pinsRef.current = pins;
+    const restitutionRef = useRef<{ [key: string]: number }>(restitution);
+    restitutionRef.current = restitution;
+    const complianceRef = useRef<{ [key: string]: number }>(compliance);
+    complianceRef.current = compliance;
+    const dampingRef = useRef<{ [key: string]: number }>(damping);
+    dampingRef.current = damping;
+    const attachedMassRef = useRef<{ [key: string]: number }>(attachedMass);
+    attachedMassRef.current = attachedMass;
+    const rigRef = useRef<RigDefinition>(rig);
+    rigRef.current = rig;
+    const onPinsChangeRef = useRef(onPinsChange);
+    onPinsChangeRef.current = onPinsChange;
+    // The keyframed pose keeps changing during playback; active ragdoll motors chase it.
+    const targetPoseRef = useRef<PoseData>(targetPose);
+    targetPoseRef.current = targetPose;
+    const activeRagdollRef = useRef<ActiveRagdollSettings>(activeRagdoll);
+    activeRagdollRef.current = activeRagdoll;
+
+    useEffect(() => {
+        // Edited limits take effect on the running body immediately.
+        if (worldRef.current) applyJointLimits(worldRef.current.body, jointLimits);
+    }, [jointLimits]);
+
+    useEffect(() => {
+        // Pins added or removed while the simulation runs anchor or release joints immediately.
+        if (worldRef.current) applyPins(worldRef.current.body, pins);
+    }, [pins]);
+
+    useEffect(() => {
+        if (worldRef.current) applyRestitution(worldRef.current.body, restitution);
+    }, [restitution]);
+
+    useEffect(() => {
+        if (worldRef.current) applyCompliance(worldRef.current.body, compliance);
+    }, [compliance]);
+
+    useEffect(() => {
+        if (worldRef.current) applyDamping(worldRef.current.body, damping);
+    }, [damping]);
+
+    useEffect(() => {
+        if (worldRef.current) applyAttachedMass(worldRef.current.body, attachedMass);
+    }, [attachedMass]);
 
     useEffect(() => {
         // This effect ensures that when physics is turned OFF, or when the timeline changes
@@ -27,21 +183,114 @@ export function usePhysics({ targetPose, isEnabled }: PhysicsOptions): { pose: P
         latestPoseRef.current = targetPose;
     }, [targetPose, isEnabled]);
 
+    /**
+     * Advances the world by one fixed step, applying whatever the mouse is holding.
+     */
+    const step = (world: PhysicsWorld) => {
+        world.targets = targetsRef.current;
+        world.colliders = collidersRef.current;
+        world.forceFields = forceFieldsRef.current;
+        const ragdoll = activeRagdollRef.current;
+        world.body.motors = ragdoll.enabled
+            ? { target: targetPoseRef.current, strength: ragdoll.strength, jointStrengths: ragdoll.jointStrengths }
+            : null;
+
+        const held = heldTargetRef.current;
+        const heldTarget = held ? world.targets[held.index] : undefined;
+        const heldStart = heldTarget ? { ...heldTarget.pos } : null;
+
+        // Verlet reads velocity per substep, so a let-go keeps only a substep's share of the hand's move.
+        const substeps = Math.max(1, Math.round(configRef.current.substeps));
+        const heldParticle = heldParticleRef.current;
+        if (heldParticle) {
+            const p = world.body.particles[heldParticle.index];
+            p.mass = 0;
+            p.prevPos = {
+                x: heldParticle.pos.x - (heldParticle.pos.x - p.pos.x) / substeps,
+                y: heldParticle.pos.y - (heldParticle.pos.y - p.pos.y) / substeps,
+            };
+            p.pos = { ...heldParticle.pos };
+        }
+
+        stepPhysicsWorld(world, configRef.current);
+
+        if (held && heldTarget && heldStart) {
+            heldTarget.prevPos = {
+                x: held.pos.x - (held.pos.x - heldStart.x) / substeps,
+                y: held.pos.y - (held.pos.y - heldStart.y) / substeps,
+            };
+            heldTarget.pos = { ...held.pos };
+        }
+    };
+
+    const finishRecording = () => {
+        const recording = recordingRef.current;
+        recordingRef.current = null;
+        setRecordingProgress(null);
+        if (recording) recording.onComplete(recording.poses);
+    };
+
+    /**
+     * Samples the pose on the fixed-step clock, so a recording is independent of frame rate.
+     */
+    const sampleRecording = (world: PhysicsWorld) => {
+        const recording = recordingRef.current;
+        if (!recording) return;
+        recording.stepsUntilSample--;
+        if (recording.stepsUntilSample > 0) return;
+
+        const previousPose = recording.poses[recording.poses.length - 1] ?? latestPoseRef.current;
+        // Each sample plays back for as long as it took to record, whatever the playback rate.
+        recording.poses.push({ ...extractPoseFromPhysicsBody(world.body, previousPose), duration: recording.stepsPerSample * FIXED_TIME_STEP });
+        recording.stepsUntilSample = recording.stepsPerSample;
+        if (recording.poses.length >= recording.sampleCount) finishRecording();
+    };
+
+    /**
+     * Steps the world once and keeps the result in the rewind history.
+     */
+    const advance = (world: PhysicsWorld) => {
+        step(world);
+        pushPhysicsSnapshot(historyRef.current, capturePhysicsSnapshot(world));
+        frameRef.current = historyRef.current.length - 1;
+        sampleRecording(world);
+    };
+
+    /**
+     * Shows the world's current state.
+     */
+    const publish = (world: PhysicsWorld) => {
+        const recording = recordingRef.current;
+        setRecordingProgress(recording ? recording.poses.length / recording.sampleCount : null);
+        setTargets(world.targets.map(t => ({ ...t, pos: { ...t.pos }, prevPos: { ...t.prevPos } })));
+        setScrubState({ frame: frameRef.current, length: historyRef.current.length, time: world.time, isPaused: isPausedRef.current });
+
+        // Pass the LATEST known pose (could be the one from the last frame) to avoid stale closures
+        const newAnimatedPose = extractPoseFromPhysicsBody(world.body, latestPoseRef.current);
+        latestPoseRef.current = newAnimatedPose; // Update ref for next frame
+        setPhysicalPose(newAnimatedPose);
+    };
+
     const animate = useCallback(() => {
-        if (!physicsBodyRef.current) { return; } // Should not happen if animate is running
+        const world = worldRef.current;
+        if (!world) { return; } // Should not happen if animate is running
         
         const time = performance.now();
         const lastTime = lastTimeRef.current ?? time;
-        const dt = (time - lastTime) / 1000;
         lastTimeRef.current = time;
+        // A paused simulation banks no time, so resuming doesn't jump ahead.
+        accumulatorRef.current = isPausedRef.current
+            ? 0
+            : Math.min(accumulatorRef.current + (time - lastTime) / 1000, FIXED_TIME_STEP * MAX_STEPS_PER_FRAME);
 
-        if (dt > 0) {
-            updatePhysicsBody(physicsBodyRef.current, Math.min(dt, 1/30));
-            // Pass the LATEST known pose (could be the one from the last frame) to avoid stale closures
-            const newAnimatedPose = extractPoseFromPhysicsBody(physicsBodyRef.current, latestPoseRef.current);
-            latestPoseRef.current = newAnimatedPose; // Update ref for next frame
-            setPhysicalPose(newAnimatedPose);
+        let stepped = false;
+        while (accumulatorRef.current >= FIXED_TIME_STEP) {
+            advance(world);
+            accumulatorRef.current -= FIXED_TIME_STEP;
+            stepped = true;
         }
+
+        if (stepped) publish(world);
         
         animationFrameId.current = requestAnimationFrame(animate);
     }, []);
@@ -49,20 +298,154 @@ export function usePhysics({ targetPose, isEnabled }: PhysicsOptions): { pose: P
     useEffect(() => {
         if (isEnabled) {
             lastTimeRef.current = performance.now();
+            accumulatorRef.current = 0;
             // When physics is enabled, create the body from the *current* pose
             // which is held in latestPoseRef. This ensures a smooth transition.
-            physicsBodyRef.current = createPhysicsBodyFromPose(latestPoseRef.current);
+            worldRef.current = createPhysicsWorld(latestPoseRef.current, {
+                rig: rigRef.current,
+                limits: jointLimitsRef.current,
+                seed: seedRef.current,
+                targets: targetsRef.current,
+                pins: pinsRef.current,
+                restitution: restitutionRef.current,
+                compliance: complianceRef.current,
+                damping: dampingRef.current,
+                attachedMass: attachedMassRef.current,
+            });
+            historyRef.current = createPhysicsHistory(HISTORY_CAPACITY);
+            pushPhysicsSnapshot(historyRef.current, capturePhysicsSnapshot(worldRef.current));
+            frameRef.current = 0;
+            isPausedRef.current = false;
+            setScrubState({ ...SCRUB_IDLE, length: 1 });
             animationFrameId.current = requestAnimationFrame(animate);
         } else {
             if (animationFrameId.current) cancelAnimationFrame(animationFrameId.current);
             animationFrameId.current = undefined;
             lastTimeRef.current = undefined;
-            physicsBodyRef.current = null;
+            worldRef.current = null;
+            heldTargetRef.current = null;
+            heldParticleRef.current = null;
+            heldPinRef.current = null;
+            // Turning physics off abandons an unfinished recording.
+            recordingRef.current = null;
+            setRecordingProgress(null);
+            isPausedRef.current = false;
+            setScrubState(SCRUB_IDLE);
         }
         return () => { if (animationFrameId.current) cancelAnimationFrame(animationFrameId.current); };
     }, [isEnabled, animate]);
 
+    const pointer = useMemo<PhysicsPointer>(() => ({
+        down: (pos, remove) => {
+            const hitIndex = targetsRef.current.findIndex(t => Math.hypot(t.pos.x - pos.x, t.pos.y - pos.y) <= t.radius);
+            if (hitIndex !== -1) {
+                if (remove) {
+                    targetsRef.current = targetsRef.current.filter((_, i) => i !== hitIndex);
+                    setTargets([...targetsRef.current]);
+                } else {
+                    heldTargetRef.current = { index: hitIndex, pos };
+                }
+                return;
+            }
+            if (remove) return;
+            const body = worldRef.current?.body;
+            const particleIndex = body ? findParticleNear(body, pos, GRAB_RADIUS) : -1;
+            if (body && particleIndex !== -1 && body.pins[body.particles[particleIndex].id]) {
+                heldPinRef.current = body.particles[particleIndex].id;
+                return;
+            }
+            if (body && particleIndex !== -1) {
+                heldParticleRef.current = { index: particleIndex, pos, mass: body.particles[particleIndex].mass };
+                return;
+            }
+            // Clicking empty space spawns a new ball already in hand, so it can be thrown right away.
+            targetsRef.current = [...targetsRef.current, createTargetObject(pos)];
+            heldTargetRef.current = { index: targetsRef.current.length - 1, pos };
+            setTargets([...targetsRef.current]);
+        },
+        move: (pos) => {
+            if (heldTargetRef.current) heldTargetRef.current.pos = pos;
+            if (heldParticleRef.current) heldParticleRef.current.pos = pos;
+            const body = worldRef.current?.body;
+            if (heldPinRef.current && body) body.pins[heldPinRef.current] = pos;
+        },
+        up: () => {
+            heldTargetRef.current = null;
+            const heldParticle = heldParticleRef.current;
+            if (heldParticle && worldRef.current) {
+                worldRef.current.body.particles[heldParticle.index].mass = heldParticle.mass;
+            }
+            heldParticleRef.current = null;
+            const body = worldRef.current?.body;
+            if (heldPinRef.current && body) onPinsChangeRef.current?.({ ...body.pins });
+            heldPinRef.current = null;
+        },
+    }), []);
+
+    const recorder: PhysicsRecorder = {
+        start: (rate, duration, onComplete) => {
+            const stepsPerSample = Math.max(1, Math.round(1 / (rate * FIXED_TIME_STEP)));
+            const sampleCount = Math.max(1, Math.round(duration * rate));
+            recordingRef.current = { stepsPerSample, stepsUntilSample: stepsPerSample, sampleCount, poses: [], onComplete };
+            setRecordingProgress(0);
+        },
+        stop: finishRecording,
+        progress: recordingProgress,
+    };
+
+    /**
+     * Rewinds the world to a recorded step. The balls live in targetsRef between steps, so they follow too.
+     */
+    const showFrame = (frame: number) => {
+        const world = worldRef.current;
+        const snapshot = getPhysicsSnapshot(historyRef.current, frame);
+        if (!world || !snapshot) return;
+        restorePhysicsSnapshot(world, snapshot);
+        targetsRef.current = world.targets;
+        heldTargetRef.current = null;
+        frameRef.current = frame;
+        publish(world);
+    };
+
+    const pause = () => {
+        isPausedRef.current = true;
+        setScrubState(s => ({ ...s, isPaused: true }));
+    };
+
+    const scrubber: PhysicsScrubber = {
+        ...scrubState,
+        pause,
+        resume: () => {
+            truncatePhysicsHistory(historyRef.current, frameRef.current);
+            isPausedRef.current = false;
+            setScrubState(s => ({ ...s, length: historyRef.current.length, isPaused: false }));
+        },
+        seek: (frame) => {
+            pause();
+            showFrame(Math.max(0, Math.min(historyRef.current.length - 1, Math.round(frame))));
+        },
+        step: (delta) => {
+            const world = worldRef.current;
+            if (!world) return;
+            pause();
+            const lastFrame = historyRef.current.length - 1;
+            const frame = Math.max(0, frameRef.current + delta);
+            if (frame <= lastFrame) {
+                showFrame(frame);
+                return;
+            }
+            // Past the newest step there is nothing to replay, so simulate the rest.
+            if (frameRef.current < lastFrame) showFrame(lastFrame);
+            for (let i = lastFrame; i < frame; i++) advance(world);
+            publish(world);
+        },
+    };
+
+    const impulse = useCallback((key: string, value: Point) => {
+        if (worldRef.current) applyImpulse(worldRef.current, key, value);
+    }, []);
+
     // The state `physicalPose` holds the simulation result if enabled,
     // or the passed-in `targetPose` if disabled (set by the other useEffect).
-    return { pose: physicalPose };
+    return { pose: physicalPose, targets, pointer, recorder, scrubber, applyImpulse: impulse };
 }
\ No newline at end of file
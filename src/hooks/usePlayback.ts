@@ -1,15 +1,17 @@
 import { useState, useEffect, useRef } from 'react';
-import type { PoseData } from '../core/types';
+import type { PoseData, RigDefinition } from '../core/types';
 import { interpolatePoses } from '../core/interpolation';
+import { HUMANOID_RIG } from '../core/kinematics';
 
 interface PlaybackOptions {
     keyframes: PoseData[];
     isPlaying: boolean;
     startFrame: number; // The frame to begin playback from
     fps?: number;
+    rig?: RigDefinition; // The rig the keyframes pose
 }
 
-export function usePlayback({ keyframes, isPlaying, startFrame, fps = 2 }: PlaybackOptions): PoseData {
+export function usePlayback({ keyframes, isPlaying, startFrame, fps = 2, rig = HUMANOID_RIG }: PlaybackOptions): PoseData {
     const [interpolatedPose, setInterpolatedPose] = useState<PoseData>(keyframes[startFrame] || keyframes[0]);
     // FIX: Explicitly pass undefined to useRef to satisfy stricter TypeScript checks or linters.
     const animationFrameId = useRef<number | undefined>(undefined);
@@ -37,17 +39,25 @@ export function usePlayback({ keyframes, isPlaying, startFrame, fps = 2 }: Playb
                 // Ping-pong logic: For N keyframes, there are N-1 segments forward and N-1 segments back.
                 const numSegments = 2 * (numKeyframes - 1);
                 if (numSegments <= 0) return;
-                
-                const totalDuration = numSegments * frameDuration;
+
+                // A segment takes the duration of the earlier of its two keyframes, going either way.
+                const segmentDurations = Array.from({ length: numSegments }, (_, i) => {
+                    const duration = keyframes[i < numKeyframes - 1 ? i : numSegments - i - 1].duration;
+                    return duration !== undefined && duration > 0 ? duration : frameDuration;
+                });
+                const totalDuration = segmentDurations.reduce((sum, d) => sum + d, 0);
 
                 // Map the startFrame to a start time offset in the ping-pong timeline.
-                const startTimeOffset = startFrameRef.current * frameDuration;
-                const timelineTime = (elapsedTime + startTimeOffset) % totalDuration;
-                
-                const currentSegmentFloat = timelineTime / frameDuration;
-                const segmentIndex = Math.floor(currentSegmentFloat);
-                
-                const t = currentSegmentFloat - segmentIndex;
+                const startTimeOffset = segmentDurations.slice(0, startFrameRef.current).reduce((sum, d) => sum + d, 0);
+                let timelineTime = (elapsedTime + startTimeOffset) % totalDuration;
+
+                let segmentIndex = 0;
+                while (segmentIndex < numSegments - 1 && timelineTime >= segmentDurations[segmentIndex]) {
+                    timelineTime -= segmentDurations[segmentIndex];
+                    segmentIndex++;
+                }
+
+                const t = Math.min(1, timelineTime / segmentDurations[segmentIndex]);
 
                 let fromIndex: number;
                 let toIndex: number;
@@ -66,7 +76,7 @@ export function usePlayback({ keyframes, isPlaying, startFrame, fps = 2 }: Playb
                 const toPose = keyframes[toIndex];
                 
                 if (fromPose && toPose) {
-                    setInterpolatedPose(interpolatePoses(fromPose, toPose, t));
+                    setInterpolatedPose(interpolatePoses(fromPose, toPose, t, rig));
                 }
 
                 animationFrameId.current = requestAnimationFrame(animate);
@@ -80,7 +90,7 @@ export function usePlayback({ keyframes, isPlaying, startFrame, fps = 2 }: Playb
                 cancelAnimationFrame(animationFrameId.current);
             }
         };
-    }, [isPlaying, keyframes, startFrame, fps]);
+    }, [isPlaying, keyframes, startFrame, fps, rig]);
 
     return interpolatedPose;
 }
\ No newline at end of file
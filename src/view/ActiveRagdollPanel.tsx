@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import type { ActiveRagdollSettings, RigDefinition } from '../core/types';
+import { getMotorJoints } from '../core/physics';
+import { HUMANOID_RIG } from '../core/kinematics';
+
+interface ActiveRagdollPanelProps {
+    settings: ActiveRagdollSettings;
+    onSettingsChange: (settings: ActiveRagdollSettings) => void;
+    rig?: RigDefinition; // Whose joints get a motor strength
+}
+
+export function ActiveRagdollPanel({ settings, onSettingsChange, rig = HUMANOID_RIG }: ActiveRagdollPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const update = (patch: Partial<ActiveRagdollSettings>) => onSettingsChange({ ...settings, ...patch });
+    const setJointStrength = (key: string, value: number) => update({ jointStrengths: { ...settings.jointStrengths, [key]: value } });
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-white">Active Ragdoll</span>
+                <button
+                    onClick={() => update({ enabled: !settings.enabled })}
+                    className={`px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors ${settings.enabled ? 'text-red-500' : ''}`}
+                    title="Drive the simulated body towards the keyframed pose"
+                >
+                    {settings.enabled ? 'On' : 'Off'}
+                </button>
+            </div>
+            <label className="flex flex-col gap-1 text-xs">
+                <div className="flex justify-between">
+                    <span>Strength</span>
+                    <span className="tabular-nums text-white/50">{settings.strength}</span>
+                </div>
+                <input
+                    type="range" min={0} max={1} step={0.05}
+                    value={settings.strength}
+                    onChange={e => update({ strength: parseFloat(e.target.value) })}
+                    className="w-full accent-red-500"
+                    title="0 is a pure ragdoll, 1 follows the animation exactly"
+                />
+                <div className="flex justify-between text-white/30">
+                    <span>Ragdoll</span>
+                    <span>Animation</span>
+                </div>
+            </label>
+            <button onClick={() => setIsOpen(o => !o)} className="flex items-center justify-between text-xs text-white/70">
+                <span>Per-Joint Strength</span>
+                <span className="text-white/50">{isOpen ? '−' : '+'}</span>
+            </button>
+            {isOpen && getMotorJoints(rig).map(key => {
+                const value = settings.jointStrengths[key] ?? 1;
+                return (
+                    <label key={key} className="flex items-center gap-2 text-xs">
+                        <span className="w-24 shrink-0">{key}</span>
+                        <input
+                            type="range" min={0} max={1} step={0.05}
+                            value={value}
+                            onChange={e => setJointStrength(key, parseFloat(e.target.value))}
+                            className="w-full accent-red-500"
+                            title={`${key} motor strength`}
+                        />
+                        <span className="w-8 text-right tabular-nums text-white/50">{value}</span>
+                    </label>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { Balance } from '../core/types';
+
+interface BalancePanelProps {
+    balance: Balance;
+    showBalance: boolean;
+    onToggleShowBalance: () => void;
+    autoBalance: boolean;
+    onToggleAutoBalance: () => void;
+}
+
+export function BalancePanel({ balance, showBalance, onToggleShowBalance, autoBalance, onToggleAutoBalance }: BalancePanelProps) {
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors";
+    const { centerOfMass, isBalanced, margin } = balance;
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-white">Balance</span>
+                <div className="flex gap-2">
+                    <button
+                        onClick={onToggleShowBalance}
+                        className={`${chipClass} ${showBalance ? 'text-red-500' : ''}`}
+                        title="Draw the centre of mass and the support polygon"
+                    >
+                        Show
+                    </button>
+                    <button
+                        onClick={onToggleAutoBalance}
+                        className={`${chipClass} ${autoBalance ? 'text-red-500' : ''}`}
+                        title="Grounded IK drags (Alt-drag the head, torso or waist) keep the centre of mass over the feet"
+                    >
+                        Auto
+                    </button>
+                </div>
+            </div>
+            <div className="flex justify-between text-xs tabular-nums">
+                <span>Centre of Mass</span>
+                <span className="text-white/50">{Math.round(centerOfMass.x)}, {Math.round(centerOfMass.y)}</span>
+            </div>
+            <div className="flex justify-between text-xs tabular-nums">
+                <span className={isBalanced ? '' : 'text-red-500'}>{isBalanced ? 'Balanced' : 'Tipping Over'}</span>
+                <span className="text-white/50">{Number.isFinite(margin) ? `${Math.round(margin)}px` : 'no support'}</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import type { PoseData } from '../core/types';
+import { HUMANOID_RIG } from '../core/kinematics';
+import { BODY_MASKS, MASK_ROOT, getMaskName, type BodyMask } from '../core/masks';
+
+interface BodyMaskPanelProps {
+    mask: BodyMask; // The parts paste, blend, library poses and reset change
+    onMaskChange: (mask: BodyMask) => void;
+    keyframesCount: number;
+    currentFrame: number;
+    clipboard: PoseData | null;
+    onCopyPose: () => void;
+    onPastePose: () => void;
+    onBlendKeyframe: (index: number, t: number) => void;
+}
+
+const CUSTOM = ''; // Select value for a hand-picked joint set
+const JOINTS = [MASK_ROOT, ...HUMANOID_RIG.joints.map(joint => joint.key)];
+
+export function BodyMaskPanel({ mask, onMaskChange, keyframesCount, currentFrame, clipboard, onCopyPose, onPastePose, onBlendKeyframe }: BodyMaskPanelProps) {
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+    const selectClass = "w-full bg-white/10 rounded-md px-2 py-1 text-white/70 text-xs";
+    const [blendFrame, setBlendFrame] = useState(0);
+    const [blendAmount, setBlendAmount] = useState(0.5);
+    const maskName = getMaskName(mask) ?? CUSTOM;
+    // The frame may have been deleted since it was picked.
+    const otherFrame = Math.min(blendFrame, keyframesCount - 1);
+
+    const toggleJoint = (key: string) => {
+        onMaskChange(mask.includes(key) ? mask.filter(k => k !== key) : [...mask, key]);
+    };
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="text-sm text-white">Body Parts</div>
+            <select
+                value={maskName}
+                onChange={e => { if (e.target.value !== CUSTOM) onMaskChange([...BODY_MASKS[e.target.value]]); }}
+                className={selectClass}
+                title="Which parts paste, blend, library poses and reset change"
+            >
+                {Object.keys(BODY_MASKS).map(name => <option key={name} value={name}>{name}</option>)}
+                <option value={CUSTOM} disabled>custom</option>
+            </select>
+            <div className="flex flex-wrap gap-1">
+                {JOINTS.map(key => (
+                    <button
+                        key={key}
+                        onClick={() => toggleJoint(key)}
+                        className={`${chipClass} ${mask.includes(key) ? 'text-red-500' : 'text-white/50'}`}
+                        title={key === MASK_ROOT ? 'Where the figure stands' : undefined}
+                    >
+                        {key === MASK_ROOT ? 'position' : key}
+                    </button>
+                ))}
+            </div>
+            <div className="flex gap-2">
+                <button onClick={onCopyPose} className={chipClass} title="Copy this keyframe's whole pose">Copy Pose</button>
+                <button onClick={onPastePose} disabled={!clipboard || mask.length === 0} className={chipClass} title="Paste the copied pose onto the chosen parts">Paste</button>
+            </div>
+            <div className="flex items-center gap-2 text-xs">
+                <select value={otherFrame} onChange={e => setBlendFrame(Number(e.target.value))} className={selectClass} title="Keyframe to blend toward">
+                    {Array.from({ length: keyframesCount }, (_, i) => (
+                        <option key={i} value={i} disabled={i === currentFrame}>frame {i + 1}</option>
+                    ))}
+                </select>
+                <input
+                    type="range" min="0" max="1" step="0.05"
+                    value={blendAmount}
+                    onChange={e => setBlendAmount(parseFloat(e.target.value))}
+                    className="w-full"
+                    title="How far to blend"
+                />
+                <span className="w-8 shrink-0 text-right">{Math.round(blendAmount * 100)}%</span>
+                <button
+                    onClick={() => onBlendKeyframe(otherFrame, blendAmount)}
+                    disabled={otherFrame === currentFrame || mask.length === 0}
+                    className={`${chipClass} shrink-0`}
+                    title="Move the chosen parts of this keyframe toward the other one"
+                >
+                    Blend
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,10 +1,16 @@
 
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle, useCallback, useLayoutEffect } from 'react';
-import type { PoseData, Point, BoneSegment, Skeleton, TargetObject } from '../core/types';
-import { computeSkeleton, getParentWorldAngle, W, H, jointConstraints, clampAngle, L_ARM, L_FOREARM, L_THIGH, L_SHIN, solveIK } from '../core/kinematics';
+import type { PoseData, RigPose, RigDefinition, Point, BoneSegment, Skeleton, TargetObject, Collider, ForceField, ChainDefinition, JointLimits, PropDefinition } from '../core/types';
+import { computeRigSkeleton, HUMANOID_RIG, W, H, jointConstraints, clampAngle, clampToLimits, getJointFrame, getLimbReach, solveLimbIK, solveChainIK, getTrunkJoints, getLimbEnds, getChainTo } from '../core/kinematics';
 import { solveFabrik } from '../core/ik';
-import { drawPart, drawJoints, drawJointMarkers } from './drawing';
+import { getRigJoint, getRigTables, getPoseAngle, setPoseAngle } from '../core/rig';
+import { drawPart, drawJoints, drawJointMarkers, drawTargets, drawColliders, drawForceFields, drawChains, drawProps, drawBalance, getDrawOrder, drawLimitWedges, getLimitHandles, FORCE_FIELD_HANDLE_RADIUS, LIMIT_HANDLE_RADIUS, type LimitHandle } from './drawing';
 import { constrainPoseToBounds } from '../utils';
+import type { PhysicsPointer } from '../hooks/usePhysics';
+import { useChains } from '../hooks/useChains';
+import { isPointInCollider, translateCollider } from '../core/colliders';
+import { measureBalance, getBalanceShift, getPinnedFeet } from '../core/balance';
+import { placeProps } from '../core/props';
 
 export interface CanvasHandle {
   exportAsPng: () => void;
@@ -18,6 +24,24 @@ interface CanvasProps {
   onSelectPart: (key: string) => void;
   onDeselect: () => void;
   isInteractionDisabled: boolean;
+  targets?: TargetObject[];
+  physicsPointer?: PhysicsPointer;
+  colliders?: Collider[];
+  isEditingScene?: boolean;
+  onCollidersChange?: (colliders: Collider[]) => void;
+  forceFields?: ForceField[];
+  onForceFieldsChange?: (fields: ForceField[]) => void;
+  chains?: ChainDefinition[];
+  gravity?: Point; // Pulls on the chains
+  showBalance?: boolean;
+  autoBalance?: boolean; // Grounded IK drags keep the centre of mass over the feet
+  userPins: { [key: string]: Point };
+  onUserPinsChange: (pins: { [key: string]: Point }) => void;
+  jointLimits?: JointLimits; // Clamp every drag; pressing LIMIT_OVERRIDE_KEY lifts them until the drag ends
+  isEditingLimits?: boolean; // Show the limit wedges and let their ends be dragged
+  onJointLimitsChange?: (limits: JointLimits) => void;
+  props?: PropDefinition[];
+  rig?: RigDefinition; // Any rig can be drawn and rotated; the IK drags and default pins are the mannequin's
 }
 
 // --- Theme & constants ---
@@ -26,24 +50,39 @@ const PAPER_COLOR = '#F4F1DE', GRID_COLOR = 'rgba(61, 43, 86, 0.1)';
 const GRID_SNAP = 3.125;
 const ANGLE_SNAP = (5 * Math.PI) / 180; // 5 degrees
 const DAMPING_FACTOR = 0.4;
+const COLLIDER_HANDLE_RADIUS = 10;
+const LIMIT_OVERRIDE_KEY = 'x';
+
+// Bounded so an unreachable balance can't stall a drag.
+const BALANCE_ITERATIONS = 4;
 
 // --- Interaction ---
-const boneToControlledAction: { [key: string]: { type: 'rotate'; joint: string; pivot: string; } } = { 
-    'torso': { type: 'rotate', joint: 'torso', pivot: 'root' }, 
-    'waist': { type: 'rotate', joint: 'waist', pivot: 'root' }, 
-    'head': { type: 'rotate', joint: 'head', pivot: 'head' }, 
-    'left.shoulder': { type: 'rotate', joint: 'left.shoulder', pivot: 'left.shoulder' }, 
-    'left.elbow': { type: 'rotate', joint: 'left.elbow', pivot: 'left.elbow' }, 
-    'left.hand': { type: 'rotate', joint: 'left.hand', pivot: 'left.hand' }, 
-    'right.shoulder': { type: 'rotate', joint: 'right.shoulder', pivot: 'right.shoulder' }, 
-    'right.elbow': { type: 'rotate', joint: 'right.elbow', pivot: 'right.elbow' }, 
-    'right.hand': { type: 'rotate', joint: 'right.hand', pivot: 'right.hand' }, 
-    'left.hip': { type: 'rotate', joint: 'left.hip', pivot: 'left.hip' }, 
-    'left.knee': { type: 'rotate', joint: 'left.knee', pivot: 'left.knee' }, 
-    'left.foot': { type: 'rotate', joint: 'left.foot', pivot: 'left.foot' }, 
-    'right.hip': { type: 'rotate', joint: 'right.hip', pivot: 'right.hip' }, 
-    'right.knee': { type: 'rotate', joint: 'right.knee', pivot: 'right.knee' }, 
-    'right.foot': { type: 'rotate', joint: 'right.foot', pivot: 'right.foot' } 
+// Dragging a bone turns it about its joint's handle; a bone whose handle sits at its tip (the
+// spine, the waist) turns about where its parent's handle is instead.
+const getRotatePivot = (rig: RigDefinition, key: string): string => {
+    const joint = getRigJoint(rig, key);
+    return joint && joint.pivot === joint.length ? joint.parent ?? 'root' : key;
+};
+// The joint a limb end's two bones hang from, e.g. the shoulder above a hand.
+const getLimbRoot = (rig: RigDefinition, key: string): string | null => {
+    const { hierarchy } = getRigTables(rig);
+    const parent = hierarchy[key]?.parent;
+    return parent ? hierarchy[parent]?.parent ?? null : null;
+};
+// What a grounded drag keeps planted without user pins: the limb ends hanging from the same
+// trunk joint as the lowest one, i.e. the feet when standing.
+const getGroundedEnds = (rig: RigDefinition, skeleton: Skeleton): string[] => {
+    const trunk = getTrunkJoints(rig);
+    const { hierarchy } = getRigTables(rig);
+    const ends = getLimbEnds(rig).filter(key => skeleton.joints[key]);
+    if (ends.length === 0) return [];
+    const baseOf = (key: string): string | null => {
+        let current: string | null = key;
+        while (current && !trunk.includes(current)) current = hierarchy[current]?.parent ?? null;
+        return current;
+    };
+    const lowest = ends.reduce((a, b) => skeleton.joints[b].y > skeleton.joints[a].y ? b : a);
+    return ends.filter(key => baseOf(key) === baseOf(lowest));
 };
 const lerp = (a: number, b: number, t: number) => a * (1 - t) + b * t;
 const recursiveLerp = (a: any, b: any, t: number): any => { if (typeof a === 'number' && typeof b === 'number') return lerp(a, b, t); if (typeof a === 'object' && a !== null && b !== null) { const result: { [key: string]: any } = {}; for (const key in a) if (key in b) result[key] = recursiveLerp(a[key], b[key], t); return result; } return b; };
@@ -51,7 +90,7 @@ const isClose = (a: any, b: any, threshold = 0.001): boolean => { if (typeof a =
 function distToSegment(p: Point, v: Point, w: Point): number { const l2 = (v.x - w.x) ** 2 + (v.y - w.y) ** 2; if (l2 === 0) return Math.hypot(p.x - v.x, p.y - v.y); let t = ((p.x - v.x) * (w.x - v.x) + (p.y - v.y) * (w.y - v.y)) / l2; t = Math.max(0, Math.min(1, t)); const proj = { x: v.x + t * (w.x - v.x), y: v.y + t * (w.y - v.y) }; return Math.hypot(p.x - proj.x, p.y - proj.y); }
 
 
-export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommit, assets, selectedPartKey, onSelectPart, onDeselect, isInteractionDisabled }, ref) => {
+export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommit, assets, selectedPartKey, onSelectPart, onDeselect, isInteractionDisabled, targets, physicsPointer, colliders, isEditingScene, onCollidersChange, forceFields, onForceFieldsChange, chains, gravity, showBalance, autoBalance, userPins, onUserPinsChange, jointLimits = jointConstraints, isEditingLimits, onJointLimitsChange, props, rig = HUMANOID_RIG }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const [scale, setScale] = useState(1);
@@ -59,6 +98,11 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
   const [draggedPartKey, setDraggedPartKey] = useState<string | null>(null);
   const [activePivot, setActivePivot] = useState<Point | null>(null);
   const [displayedPose, setDisplayedPose] = useState<PoseData>(pose);
+  // Chains hang from the pose as drawn, so they follow drags before they are committed.
+  const chainStates = useChains({ pose: displayedPose, chains, gravity, colliders, rig });
+  // Bumped when a prop's image finishes loading, to draw it in place of its shape.
+  const [propImageLoads, setPropImageLoads] = useState(0);
+  const handlePropImageLoad = useCallback(() => setPropImageLoads(n => n + 1), []);
   // FIX: Explicitly pass undefined to useRef to satisfy stricter TypeScript checks or linters. While useRef() is valid, some toolchains might incorrectly flag it.
   const animationFrameId = useRef<number | undefined>(undefined);
   const initialDragOffset = useRef<Point>({x:0, y:0});
@@ -68,10 +112,33 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
   const initialMousePosRef = useRef<Point>({x: 0, y: 0});
   const [pinnedPoints, setPinnedPoints] = useState<{[key: string]: Point} | null>(null);
   const pinnedPointsRef = useRef<{[key: string]: Point} | null>(null);
-  const [userPins, setUserPins] = useState<{ [key: string]: Point }>({});
   const ikDriverKeyRef = useRef<string | null>(null);
   const rotationAccumulatorRef = useRef<number>(0);
   const lastMouseAngleRef = useRef<number>(0);
+  const colliderDragRef = useRef<{ index: number; vertex: number | null; startMouse: Point; original: Collider } | null>(null);
+  const forceFieldDragRef = useRef<{ index: number; startMouse: Point; original: ForceField } | null>(null);
+  const limitDragRef = useRef<LimitHandle | null>(null);
+  const overrideLimitsRef = useRef(false);
+
+  // Pressing the override key during a drag frees the joints for the rest of that drag only.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === LIMIT_OVERRIDE_KEY && dragModeRef.current) overrideLimitsRef.current = true;
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const isHumanoid = rig === HUMANOID_RIG;
+  const skeletonOf = (p: RigPose): Skeleton => computeRigSkeleton(rig, p);
+  // Trunk joints are dragged with the body IK modes; limb ends with limb IK and as pins. Trunk
+  // joints with nothing hanging from them (the head) are pinned too.
+  const trunk = getTrunkJoints(rig);
+  const limbEnds = getLimbEnds(rig);
+  const trunkTips = trunk.filter(key => getRigTables(rig).hierarchy[key].children.length === 0);
+
+  // The limits the current drag has to respect.
+  const getDragLimits = (): JointLimits => overrideLimitsRef.current ? {} : jointLimits;
 
   useLayoutEffect(() => {
     const wrapper = wrapperRef.current;
@@ -122,7 +189,9 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
         for (let y = 0; y <= H; y += 50) { ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(W, y); ctx.stroke(); }
     }
 
-    const mainSkeleton = computeSkeleton(isExport ? pose : displayedPose);
+    if (colliders) drawColliders(ctx, colliders, !isExport && !!isEditingScene);
+
+    const mainSkeleton = computeRigSkeleton(rig, isExport ? pose : displayedPose);
 
     // Draw the thin red vertical center line
     if (!isExport) {
@@ -136,23 +205,29 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
         ctx.restore();
     }
 
-    const drawSkeleton = (skel: Skeleton, currentAssets?: typeof assets, highlightKey?: string | null) => {
-        const order = [
-            'right.hip', 'right.knee', 'right.foot',
-            'left.hip', 'left.knee', 'left.foot',
-            'waist',
-            'right.shoulder', 'right.elbow', 'right.hand',
-            'left.shoulder', 'left.elbow', 'left.hand',
-            'torso',
-            'neck', 'head'
-        ];
+    const drawSkeleton = (skel: Skeleton, order: string[], currentAssets?: typeof assets, highlightKey?: string | null) => {
         order.forEach(key => {
             const bone = skel.bones.find(b => b.key === key);
             if (bone) drawPart(ctx, bone, bone.key === highlightKey, currentAssets?.[bone.key] ?? null);
         });
     };
 
-    drawSkeleton(mainSkeleton, assets, isExport ? null : selectedPartKey);
+    // Chains hang behind the body.
+    if (chains) drawChains(ctx, chains, chainStates);
+    // Layers switch outright, so they come from the pose being eased toward.
+    drawSkeleton(mainSkeleton, getDrawOrder(isExport ? pose : localPose, rig), assets, isExport ? null : selectedPartKey);
+    // Props are held in front of the body.
+    if (props) drawProps(ctx, placeProps(mainSkeleton, isExport ? pose : displayedPose, props), handlePropImageLoad);
+
+    if (targets) drawTargets(ctx, targets);
+    if (forceFields && !isExport) drawForceFields(ctx, forceFields, !!isEditingScene);
+
+    if (showBalance && !isExport) drawBalance(ctx, measureBalance(mainSkeleton, getPinnedFeet({ ...userPins, ...pinnedPoints })));
+
+    if (isEditingLimits && !isExport) {
+        const focusKey = limitDragRef.current?.key ?? (selectedPartKey && jointLimits[selectedPartKey] ? selectedPartKey : null);
+        drawLimitWedges(ctx, mainSkeleton, jointLimits, focusKey, rig);
+    }
 
     if (!isExport) {
         drawJointMarkers(ctx, mainSkeleton.joints);
@@ -162,7 +237,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
             ctx.fillStyle = PIN_COLOR; ctx.beginPath(); ctx.arc(activePivot.x, activePivot.y, 6, 0, 2 * Math.PI); ctx.fill();
         }
     }
-  }, [displayedPose, pose, assets, selectedPartKey, activePivot, pinnedPoints, userPins]);
+  }, [displayedPose, localPose, pose, assets, selectedPartKey, activePivot, pinnedPoints, userPins, targets, colliders, isEditingScene, forceFields, chains, chainStates, showBalance, isEditingLimits, jointLimits, props, propImageLoads, handlePropImageLoad, rig]);
 
   useEffect(() => {
     const canvas = canvasRef.current!, ctx = canvas.getContext('2d')!;
@@ -197,23 +272,151 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     return { x, y }; 
   };
 
+  /**
+   * Grabs a force field by its centre handle; Alt-click deletes it. Returns whether a field was hit.
+   */
+  const handleForceFieldMouseDown = (pos: Point, e: React.MouseEvent): boolean => {
+    if (!forceFields || !onForceFieldsChange) return false;
+    for (let i = forceFields.length - 1; i >= 0; i--) {
+        const field = forceFields[i];
+        if (Math.hypot(field.pos.x - pos.x, field.pos.y - pos.y) > FORCE_FIELD_HANDLE_RADIUS) continue;
+        if (e.altKey) onForceFieldsChange(forceFields.filter((_, fi) => fi !== i));
+        else forceFieldDragRef.current = { index: i, startMouse: pos, original: field };
+        return true;
+    }
+    return false;
+  };
+
+  const handleColliderMouseDown = (pos: Point, e: React.MouseEvent) => {
+    if (!colliders || !onCollidersChange) return;
+
+    // Vertex handles take priority; Alt-click removes a vertex (a shape keeps at least three).
+    for (let i = colliders.length - 1; i >= 0; i--) {
+        const vertex = colliders[i].points.findIndex(p => Math.hypot(p.x - pos.x, p.y - pos.y) <= COLLIDER_HANDLE_RADIUS);
+        if (vertex === -1) continue;
+        if (e.altKey) {
+            if (colliders[i].points.length > 3) {
+                onCollidersChange(colliders.map((c, ci) => ci === i ? { ...c, points: c.points.filter((_, vi) => vi !== vertex) } : c));
+            }
+            return;
+        }
+        colliderDragRef.current = { index: i, vertex, startMouse: pos, original: colliders[i] };
+        return;
+    }
+
+    // Shift-click on an edge inserts a new vertex and starts dragging it.
+    if (e.shiftKey) {
+        for (let i = colliders.length - 1; i >= 0; i--) {
+            const pts = colliders[i].points;
+            const edge = pts.findIndex((p, pi) => distToSegment(pos, p, pts[(pi + 1) % pts.length]) <= COLLIDER_HANDLE_RADIUS);
+            if (edge === -1) continue;
+            const points = [...pts];
+            points.splice(edge + 1, 0, { ...pos });
+            const updated = { ...colliders[i], points };
+            onCollidersChange(colliders.map((c, ci) => ci === i ? updated : c));
+            colliderDragRef.current = { index: i, vertex: edge + 1, startMouse: pos, original: updated };
+            return;
+        }
+    }
+
+    // Dragging inside a shape moves it; Alt-click deletes it.
+    for (let i = colliders.length - 1; i >= 0; i--) {
+        if (!isPointInCollider(pos, colliders[i])) continue;
+        if (e.altKey) {
+            onCollidersChange(colliders.filter((_, ci) => ci !== i));
+            return;
+        }
+        colliderDragRef.current = { index: i, vertex: null, startMouse: pos, original: colliders[i] };
+        return;
+    }
+  };
+
+  const handleForceFieldMouseMove = (pos: Point) => {
+    const drag = forceFieldDragRef.current;
+    if (!drag || !forceFields || !onForceFieldsChange) return;
+    const moved = {
+        ...drag.original,
+        pos: {
+            x: drag.original.pos.x + Math.round((pos.x - drag.startMouse.x) / GRID_SNAP) * GRID_SNAP,
+            y: drag.original.pos.y + Math.round((pos.y - drag.startMouse.y) / GRID_SNAP) * GRID_SNAP,
+        },
+    };
+    onForceFieldsChange(forceFields.map((f, i) => i === drag.index ? moved : f));
+  };
+
+  const handleColliderMouseMove = (pos: Point) => {
+    const drag = colliderDragRef.current;
+    if (!drag || !colliders || !onCollidersChange) return;
+
+    const delta = {
+        x: Math.round((pos.x - drag.startMouse.x) / GRID_SNAP) * GRID_SNAP,
+        y: Math.round((pos.y - drag.startMouse.y) / GRID_SNAP) * GRID_SNAP,
+    };
+    const moved = drag.vertex === null
+        ? translateCollider(drag.original, delta)
+        : { ...drag.original, points: drag.original.points.map((p, i) => i === drag.vertex ? { x: p.x + delta.x, y: p.y + delta.y } : p) };
+    onCollidersChange(colliders.map((c, i) => i === drag.index ? moved : c));
+  };
+
+  /**
+   * Grabs the end of a joint limit wedge. Returns whether one was hit.
+   */
+  const handleLimitMouseDown = (pos: Point): boolean => {
+    const handle = getLimitHandles(skeletonOf(displayedPose), jointLimits, rig)
+        .find(h => Math.hypot(pos.x - h.pos.x, pos.y - h.pos.y) <= LIMIT_HANDLE_RADIUS + 3);
+    if (!handle) return false;
+    limitDragRef.current = handle;
+    onSelectPart(handle.key);
+    return true;
+  };
+
+  const handleLimitMouseMove = (pos: Point) => {
+    const drag = limitDragRef.current;
+    const range = drag && jointLimits[drag.key];
+    if (!drag || !range || !onJointLimitsChange) return;
+    // Whole degrees, measured from the joint's zero like the pose angles are.
+    const degree = Math.PI / 180;
+    const angle = Math.round(clampAngle(Math.atan2(pos.y - drag.pivot.y, pos.x - drag.pivot.x) - drag.zeroAngle, -Math.PI, Math.PI) / degree) * degree;
+    const next = drag.end === 'min'
+        ? { min: Math.min(angle, range.max), max: range.max }
+        : { min: range.min, max: Math.max(angle, range.min) };
+    onJointLimitsChange({ ...jointLimits, [drag.key]: next });
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
-    if (isInteractionDisabled) return;
-    const skeleton = computeSkeleton(localPose);
+    if (isEditingScene) {
+        const pos = getMousePos(e);
+        if (!handleForceFieldMouseDown(pos, e)) handleColliderMouseDown(pos, e);
+        return;
+    }
+    if (isEditingLimits && handleLimitMouseDown(getMousePos(e))) return;
+    if (isInteractionDisabled) {
+        physicsPointer?.down(getMousePos(e), e.altKey);
+        return;
+    }
+    const skeleton = skeletonOf(localPose);
     const pos = getMousePos(e);
     let finalClickedKey: string | null = null;
     let minDistance = Infinity;
 
-    skeleton.bones.forEach(bone => {
-        const dist = distToSegment(pos, bone.start, bone.end);
-            
-        if (dist < bone.width / 2 + 16 && dist < minDistance) {
-            minDistance = dist;
-            finalClickedKey = bone.key;
-        }
-    });
+    // A click on a bone goes to the one drawn on top; a near miss to the closest.
+    const order = getDrawOrder(localPose, rig);
+    const frontToBack = [...skeleton.bones].sort((a, b) => order.indexOf(b.key) - order.indexOf(a.key));
+    const coveringBone = frontToBack.find(bone => distToSegment(pos, bone.start, bone.end) <= bone.width / 2);
+    if (coveringBone) {
+        finalClickedKey = coveringBone.key;
+    } else {
+        skeleton.bones.forEach(bone => {
+            const dist = distToSegment(pos, bone.start, bone.end);
+                
+            if (dist < bone.width / 2 + 16 && dist < minDistance) {
+                minDistance = dist;
+                finalClickedKey = bone.key;
+            }
+        });
+    }
 
-    if (e.shiftKey && finalClickedKey && !['torso', 'waist', 'head', 'neck'].includes(finalClickedKey)) {
+    if (e.shiftKey && finalClickedKey && !(isHumanoid && trunk.includes(finalClickedKey))) {
         onSelectPart(finalClickedKey);
         setDraggedPartKey(finalClickedKey);
         dragModeRef.current = 'aim';
@@ -227,8 +430,8 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
         onSelectPart(finalClickedKey);
         setDraggedPartKey(finalClickedKey);
         
-        const isEndEffector = ['hand', 'foot'].some(part => finalClickedKey.includes(part));
-        const isCoreBody = ['head', 'torso', 'waist'].includes(finalClickedKey);
+        const isEndEffector = limbEnds.includes(finalClickedKey);
+        const isCoreBody = trunk.includes(finalClickedKey);
         
         if (isEndEffector && (e.altKey || e.metaKey)) {
             dragModeRef.current = 'ik';
@@ -246,7 +449,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
                 pinsToUse = { ...userPins };
             } else {
                 // Default to grounding the feet if no pins are set
-                ['left.foot', 'right.foot'].forEach(key => {
+                getGroundedEnds(rig, skeleton).forEach(key => {
                     const jointPos = skeleton.joints[key];
                     if (jointPos) pinsToUse[key] = jointPos;
                 });
@@ -269,8 +472,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
                 pinsToUse = { ...userPins };
             } else {
                 pinsToUse = {};
-                const pinKeys = ['left.hand', 'right.hand', 'left.foot', 'right.foot'];
-                if (finalClickedKey !== 'head') pinKeys.push('head');
+                const pinKeys = [...limbEnds, ...trunkTips.filter(key => key !== finalClickedKey)];
                 pinKeys.forEach(key => {
                     const jointPos = skeleton.joints[key];
                     if (jointPos) pinsToUse[key] = jointPos;
@@ -284,39 +486,30 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
             initialMousePosRef.current = pos;
             setActivePivot(null);
         } else {
-            const action = boneToControlledAction[finalClickedKey as keyof typeof boneToControlledAction];
-            if (action?.type === 'rotate') {
-                dragModeRef.current = 'rotate';
-                controlledJointRef.current = action.joint;
-                const pivotKey = action.pivot || action.joint;
-                const pivot = skeleton.joints[pivotKey];
-                if (!pivot) return;
-                setActivePivot(pivot);
-                initialPoseRef.current = localPose;
-                initialMousePosRef.current = pos;
-                rotationAccumulatorRef.current = 0;
-                lastMouseAngleRef.current = Math.atan2(pos.y - pivot.y, pos.x - pivot.x);
-            }
+            dragModeRef.current = 'rotate';
+            controlledJointRef.current = finalClickedKey;
+            const pivot = skeleton.joints[getRotatePivot(rig, finalClickedKey)];
+            if (!pivot) return;
+            setActivePivot(pivot);
+            initialPoseRef.current = localPose;
+            initialMousePosRef.current = pos;
+            rotationAccumulatorRef.current = 0;
+            lastMouseAngleRef.current = Math.atan2(pos.y - pivot.y, pos.x - pivot.x);
         }
     } else {
         onDeselect();
     }
   };
   
-  const handleIk = (skeleton: Skeleton, snappedPos: Point, bypassConstraints: boolean) => {
-    if (!draggedPartKey) return;
-    
-    const isHand = draggedPartKey.includes('hand');
-    const isFoot = draggedPartKey.includes('foot');
-    if (!isHand && !isFoot) return;
-    
-    const side = draggedPartKey.startsWith('left') ? 'left' : 'right' as 'left' | 'right';
-    const isArm = isHand;
-    
-    const rootKey = isArm ? `${side}.shoulder` : `${side}.hip`;
-    const midKey = isArm ? `${side}.elbow` : `${side}.knee`;
-    const endKey = isArm ? `${side}.hand` : `${side}.foot`;
-    
+  const handleIk = (skeleton: Skeleton, snappedPos: Point) => {
+    if (!draggedPartKey || !limbEnds.includes(draggedPartKey)) return;
+
+    const endKey = draggedPartKey;
+    const { hierarchy, restAngles } = getRigTables(rig);
+    const midKey = hierarchy[endKey].parent;
+    const rootKey = getLimbRoot(rig, endKey);
+    if (!midKey || !rootKey) return;
+
     const chainPoints = [skeleton.joints[rootKey], skeleton.joints[midKey], skeleton.joints[endKey]];
     if (chainPoints.some(p => !p)) return;
 
@@ -325,37 +518,27 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     const [newRootPos, newMidPos, newEndPos] = solvedChain;
     
     // --- Limb chain angles ---
-    // FIX: Pass the root key of the IK chain to get the correct parent angle for local angle calculation.
-    const parentAngle = getParentWorldAngle(rootKey, localPose);
-    if (parentAngle === null) return;
+    // Measured from the root joint's zero: its parent's angle plus its rest angle.
+    const rootFrame = getJointFrame(skeleton, rootKey, rig);
+    if (!rootFrame) return;
+    const limits = getDragLimits();
 
     const newRootWorldAngle = Math.atan2(newMidPos.y - newRootPos.y, newMidPos.x - newRootPos.x);
-    let newRootLocalAngle = newRootWorldAngle - parentAngle;
+    const newRootLocalAngle = clampToLimits(rootKey, newRootWorldAngle - rootFrame.zeroAngle, limits);
 
     const newMidWorldAngle = Math.atan2(newEndPos.y - newMidPos.y, newEndPos.x - newMidPos.x);
-    let newMidLocalAngle = newMidWorldAngle - newRootWorldAngle;
+    const newMidLocalAngle = clampToLimits(midKey, newMidWorldAngle - newRootWorldAngle - (restAngles[midKey] || 0), limits);
     
     // --- End-effector aiming ---
-    const newEndParentWorldAngle = newMidWorldAngle; // Parent is forearm/shin
+    const newEndParentWorldAngle = newMidWorldAngle; // Parent is the forearm or shin
     const newEndWorldAngle = Math.atan2(snappedPos.y - newEndPos.y, snappedPos.x - newEndPos.x);
-    let newEndLocalAngle = newEndWorldAngle - newEndParentWorldAngle;
-
-    if (!bypassConstraints) {
-        const rootConstraint = jointConstraints[rootKey as keyof typeof jointConstraints];
-        if (rootConstraint) newRootLocalAngle = clampAngle(newRootLocalAngle, rootConstraint.min, rootConstraint.max);
-        
-        const midConstraint = jointConstraints[midKey as keyof typeof jointConstraints];
-        if (midConstraint) newMidLocalAngle = clampAngle(newMidLocalAngle, midConstraint.min, midConstraint.max);
-
-        const endConstraint = jointConstraints[endKey as keyof typeof jointConstraints];
-        if (endConstraint) newEndLocalAngle = clampAngle(newEndLocalAngle, endConstraint.min, endConstraint.max);
-    }
+    const newEndLocalAngle = clampToLimits(endKey, newEndWorldAngle - newEndParentWorldAngle - (restAngles[endKey] || 0), limits);
     
     setLocalPose(p => {
         const newPose = JSON.parse(JSON.stringify(p));
-        newPose[side][isArm ? 'shoulder' : 'hip'] = newRootLocalAngle;
-        newPose[side][isArm ? 'elbow' : 'knee'] = newMidLocalAngle;
-        newPose[side][isArm ? 'hand' : 'foot'] = newEndLocalAngle;
+        setPoseAngle(newPose, rootKey, newRootLocalAngle);
+        setPoseAngle(newPose, midKey, newMidLocalAngle);
+        setPoseAngle(newPose, endKey, newEndLocalAngle);
         return newPose;
     });
   };
@@ -372,7 +555,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     proposedPose.offset.x += mouseDelta.x;
     proposedPose.offset.y += mouseDelta.y;
 
-    const proposedSkeleton = computeSkeleton(proposedPose);
+    const proposedSkeleton = skeletonOf(proposedPose);
     let totalCorrection = { x: 0, y: 0 };
     let correctionCount = 0;
 
@@ -392,19 +575,12 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     };
     
     // Check pinned arms and legs for overstretching
-    (['left', 'right'] as const).forEach(side => {
-        if (pinnedPoints[`${side}.hand`]) {
+    limbEnds.forEach(key => {
+        if (pinnedPoints[key]) {
             calculateCorrection(
-                proposedSkeleton.joints[`${side}.shoulder`],
-                pinnedPoints[`${side}.hand`],
-                L_ARM + L_FOREARM
-            );
-        }
-        if (pinnedPoints[`${side}.foot`]) {
-            calculateCorrection(
-                proposedSkeleton.joints[`${side}.hip`],
-                pinnedPoints[`${side}.foot`],
-                L_THIGH + L_SHIN
+                proposedSkeleton.joints[getLimbRoot(rig, key) ?? ''],
+                pinnedPoints[key],
+                getLimbReach(proposedPose, key, rig)
             );
         }
     });
@@ -415,32 +591,26 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     }
     
     const newPose = proposedPose;
-    const finalSkeleton = computeSkeleton(newPose);
 
     // Solve IK for pinned arms and legs
-    (['left', 'right'] as const).forEach(side => {
-        const shoulderPos = finalSkeleton.joints[`${side}.shoulder`];
-        const handPinPos = pinnedPoints[`${side}.hand`];
-        if (shoulderPos && handPinPos) {
-            const armResult = solveIK(shoulderPos, handPinPos, L_ARM, L_FOREARM);
-            if (armResult) {
-                const torsoAngle = finalSkeleton.bones.find(b => b.key === 'torso')?.angle ?? 0;
-                newPose[side].shoulder = armResult.angle1 - torsoAngle;
-                newPose[side].elbow = armResult.angle2;
-            }
-        }
-
-        const hipPos = finalSkeleton.joints[`${side}.hip`];
-        const footPinPos = pinnedPoints[`${side}.foot`];
-        if (hipPos && footPinPos) {
-            const legResult = solveIK(hipPos, footPinPos, L_THIGH, L_SHIN);
-            if (legResult) {
-                const waistAngle = finalSkeleton.bones.find(b => b.key === 'waist')?.angle ?? 0;
-                newPose[side].hip = legResult.angle1 - waistAngle;
-                newPose[side].knee = legResult.angle2;
-            }
+    const solvePinnedLimbs = () => {
+        const limits = getDragLimits();
+        limbEnds.forEach(key => {
+            if (pinnedPoints[key]) solveLimbIK(newPose, key, pinnedPoints[key], limits, rig);
+        });
+    };
+    solvePinnedLimbs();
+
+    // Slide the hips over the feet, re-solving the legs each time since they move the weight too.
+    if (autoBalance) {
+        const groundedFeet = getPinnedFeet(pinnedPoints);
+        for (let i = 0; i < BALANCE_ITERATIONS; i++) {
+            const shift = getBalanceShift(skeletonOf(newPose), groundedFeet);
+            if (Math.abs(shift) < 0.5) break;
+            newPose.offset.x += shift;
+            solvePinnedLimbs();
         }
-    });
+    }
 
     setLocalPose(newPose);
   };
@@ -461,7 +631,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
 
     // --- Tension Simulation ---
     // Calculate how much the proposed pose overstretches the pinned limbs
-    const proposedSkeleton = computeSkeleton(proposedPose);
+    const proposedSkeleton = skeletonOf(proposedPose);
     let totalCorrection = { x: 0, y: 0 };
     let correctionCount = 0;
 
@@ -481,16 +651,11 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     };
 
     // Check arms and legs for overstretching
-    (['left', 'right'] as const).forEach(side => {
-        calculateCorrection(
-            proposedSkeleton.joints[`${side}.shoulder`],
-            pinnedPoints[`${side}.hand`],
-            L_ARM + L_FOREARM
-        );
+    limbEnds.forEach(key => {
         calculateCorrection(
-            proposedSkeleton.joints[`${side}.hip`],
-            pinnedPoints[`${side}.foot`],
-            L_THIGH + L_SHIN
+            proposedSkeleton.joints[getLimbRoot(rig, key) ?? ''],
+            pinnedPoints[key],
+            getLimbReach(proposedPose, key, rig)
         );
     });
 
@@ -501,54 +666,26 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     }
     
     const newPose = proposedPose; // This is now our tension-adjusted pose
-    const finalSkeleton = computeSkeleton(newPose);
+    const limits = getDragLimits();
+
+    // Bend the spine toward a pinned head first, since it carries the shoulders with it.
+    trunkTips.forEach(key => {
+        if (key !== driverKey && pinnedPoints[key]) solveChainIK(newPose, getChainTo(key, rig), key, pinnedPoints[key], limits, rig);
+    });
 
     // --- Final IK Solve ---
     // Now solve the IK for each limb based on the corrected body position
-    (['left', 'right'] as const).forEach(side => {
-        const shoulderPos = finalSkeleton.joints[`${side}.shoulder`];
-        const handPinPos = pinnedPoints[`${side}.hand`];
-        if (shoulderPos && handPinPos) {
-            const armResult = solveIK(shoulderPos, handPinPos, L_ARM, L_FOREARM);
-            if (armResult) {
-                const torsoAngle = finalSkeleton.bones.find(b => b.key === 'torso')?.angle ?? 0;
-                newPose[side].shoulder = armResult.angle1 - torsoAngle;
-                newPose[side].elbow = armResult.angle2;
-            }
-        }
-
-        const hipPos = finalSkeleton.joints[`${side}.hip`];
-        const footPinPos = pinnedPoints[`${side}.foot`];
-        if (hipPos && footPinPos) {
-            const legResult = solveIK(hipPos, footPinPos, L_THIGH, L_SHIN);
-            if (legResult) {
-                const waistAngle = finalSkeleton.bones.find(b => b.key === 'waist')?.angle ?? 0;
-                newPose[side].hip = legResult.angle1 - waistAngle;
-                newPose[side].knee = legResult.angle2;
-            }
-        }
+    limbEnds.forEach(key => {
+        if (pinnedPoints[key]) solveLimbIK(newPose, key, pinnedPoints[key], limits, rig);
     });
 
-    // Head pinning logic (unchanged)
-    if (driverKey !== 'head' && pinnedPoints.head) {
-        const rootPos = finalSkeleton.joints['root'];
-        const headPinPos = pinnedPoints.head;
-        if (rootPos && headPinPos) {
-            const torsoWorldAngle = Math.atan2(headPinPos.y - rootPos.y, headPinPos.x - rootPos.x) + Math.PI / 2;
-            newPose.torso = torsoWorldAngle;
-        }
-    }
-
     setLocalPose(newPose);
   };
 
   const handleRotate = (skeleton: Skeleton, snappedPos: Point, useSnap: boolean) => {
-    if (!draggedPartKey || !initialPoseRef.current || !activePivot) return;
-
-    const action = boneToControlledAction[draggedPartKey as keyof typeof boneToControlledAction];
-    if (!action || action.type !== 'rotate') return;
+    const jointToRotate = controlledJointRef.current;
+    if (!jointToRotate || !initialPoseRef.current || !activePivot) return;
 
-    const jointToRotate = action.joint;
     const pivot = activePivot;
 
     const currentMouseAngle = Math.atan2(snappedPos.y - pivot.y, snappedPos.x - pivot.x);
@@ -564,27 +701,17 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     rotationAccumulatorRef.current += angleDiff;
     lastMouseAngleRef.current = currentMouseAngle;
 
-    let initialLocalAngle = 0;
-    const parts = jointToRotate.split('.');
-    if (parts.length === 2) {
-        initialLocalAngle = (initialPoseRef.current as any)[parts[0]][parts[1]];
-    } else {
-        initialLocalAngle = (initialPoseRef.current as any)[jointToRotate];
-    }
-
+    const initialLocalAngle = getPoseAngle(initialPoseRef.current, jointToRotate);
     let newLocalAngle = initialLocalAngle + rotationAccumulatorRef.current;
     
     if (useSnap) {
         newLocalAngle = Math.round(newLocalAngle / ANGLE_SNAP) * ANGLE_SNAP;
     }
+    newLocalAngle = clampToLimits(jointToRotate, newLocalAngle, getDragLimits());
 
     setLocalPose(p => {
         const newPose = JSON.parse(JSON.stringify(p));
-        if (parts.length === 2) {
-            (newPose as any)[parts[0]][parts[1]] = newLocalAngle;
-        } else {
-            (newPose as any)[jointToRotate] = newLocalAngle;
-        }
+        setPoseAngle(newPose, jointToRotate, newLocalAngle);
         return newPose;
     });
   };
@@ -593,33 +720,40 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     const controlledJoint = controlledJointRef.current;
     if (!controlledJoint || !activePivot) return;
 
-    const targetGridAngle = Math.atan2(pos.y - activePivot.y, pos.x - activePivot.y);
-    const parentGlobalRotation = getParentWorldAngle(controlledJoint, localPose);
-    if (parentGlobalRotation === null) return;
-    const finalLocalAngle = targetGridAngle - parentGlobalRotation;
+    const targetGridAngle = Math.atan2(pos.y - activePivot.y, pos.x - activePivot.x);
+    const frame = getJointFrame(skeletonOf(localPose), controlledJoint, rig);
+    if (!frame) return;
+    const finalLocalAngle = clampToLimits(controlledJoint, targetGridAngle - frame.zeroAngle, getDragLimits());
 
     setLocalPose(p => {
         const newPose = JSON.parse(JSON.stringify(p));
-        const parts = controlledJoint.split('.');
-        if (parts.length === 2) {
-            const [side, jointName] = parts as ['left' | 'right', string];
-            (newPose[side] as any)[jointName] = finalLocalAngle;
-        } else {
-            (newPose as any)[controlledJoint] = finalLocalAngle;
-        }
+        setPoseAngle(newPose, controlledJoint, finalLocalAngle);
         return newPose;
     });
   };
   
   const handleMouseMove = (e: React.MouseEvent) => { 
+    if (isEditingScene) {
+        handleForceFieldMouseMove(getMousePos(e));
+        handleColliderMouseMove(getMousePos(e));
+        return;
+    }
+    if (limitDragRef.current) {
+        handleLimitMouseMove(getMousePos(e));
+        return;
+    }
+    if (isInteractionDisabled) {
+        physicsPointer?.move(getMousePos(e));
+        return;
+    }
     if (!draggedPartKey) return;
-    const skeleton = computeSkeleton(localPose);
+    const skeleton = skeletonOf(localPose);
     const pos = getMousePos(e);
     const snappedPos = { x: Math.round(pos.x / GRID_SNAP) * GRID_SNAP, y: Math.round(pos.y / GRID_SNAP) * GRID_SNAP };
     
     switch(dragModeRef.current) {
         case 'ik':
-            handleIk(skeleton, snappedPos, e.altKey || e.metaKey);
+            handleIk(skeleton, snappedPos);
             break;
         case 'grounded_ik':
             handleGroundedIk(pos);
@@ -637,14 +771,17 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
   };
 
   const handleMouseUp = () => {
+    physicsPointer?.up();
+    colliderDragRef.current = null;
+    forceFieldDragRef.current = null;
+    limitDragRef.current = null;
+
     if (dragModeRef.current) {
       let finalPose = localPose;
 
       // If the action was a rotation, normalize the angle to the shortest path before committing.
       if (dragModeRef.current === 'rotate' && controlledJointRef.current) {
         const jointToNormalize = controlledJointRef.current;
-        const parts = jointToNormalize.split('.');
-        
         const normalizedPose = JSON.parse(JSON.stringify(localPose));
 
         const normalizeAngle = (angle: number): number => {
@@ -657,21 +794,8 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
           return newAngle;
         };
 
-        if (parts.length === 2) {
-          // FIX: The original type `keyof PoseData['left']` seemed to confuse the compiler,
-          // leading to a strange "not callable" error on `normalizeAngle`. Using `string` for the
-          // joint name is safer here, especially since property access below uses `as any` anyway.
-          const [side, jointName] = parts as ['left' | 'right', string];
-          const currentAngle = (normalizedPose[side] as any)[jointName];
-          (normalizedPose[side] as any)[jointName] = normalizeAngle(currentAngle);
-        } else {
-          const jointName = jointToNormalize as keyof PoseData;
-          if (typeof (normalizedPose as any)[jointName] === 'number') {
-            const currentAngle = (normalizedPose as any)[jointName];
-            (normalizedPose as any)[jointName] = normalizeAngle(currentAngle);
-          }
-        }
-        
+        setPoseAngle(normalizedPose, jointToNormalize, normalizeAngle(getPoseAngle(normalizedPose, jointToNormalize)));
+
         finalPose = normalizedPose;
         setLocalPose(finalPose);
       }
@@ -688,17 +812,19 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
     setPinnedPoints(null);
     pinnedPointsRef.current = null;
     ikDriverKeyRef.current = null;
+    overrideLimitsRef.current = false;
   };
 
   const handleDoubleClick = (e: React.MouseEvent) => {
-    if (isInteractionDisabled) return;
+    // Pins stay toggleable while physics runs; there they anchor the ragdoll.
+    if (isEditingScene) return;
 
-    const skeleton = computeSkeleton(localPose);
+    const skeleton = skeletonOf(localPose);
     const pos = getMousePos(e);
     let finalClickedKey: string | null = null;
     let minDistance = Infinity;
 
-    const pinnableJoints = ['head', 'left.hand', 'right.hand', 'left.foot', 'right.foot'];
+    const pinnableJoints = [...trunkTips, ...limbEnds];
 
     Object.entries(skeleton.joints).forEach(([key, jointPos]) => {
         if (!pinnableJoints.includes(key)) return;
@@ -712,20 +838,18 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ pose, onPoseCommi
 
     if (finalClickedKey) {
         const key = finalClickedKey;
-        setUserPins(prevPins => {
-            const newPins = { ...prevPins };
-            if (newPins[key]) {
-                delete newPins[key];
-            } else {
-                newPins[key] = skeleton.joints[key];
-            }
-            return newPins;
-        });
+        const newPins = { ...userPins };
+        if (newPins[key]) {
+            delete newPins[key];
+        } else {
+            newPins[key] = skeleton.joints[key];
+        }
+        onUserPinsChange(newPins);
     }
   };
 
   return (
-    <div ref={wrapperRef} className={`flex-1 flex items-center justify-center relative w-full h-full ${isInteractionDisabled ? 'cursor-default' : 'cursor-crosshair'}`} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onDoubleClick={handleDoubleClick}>
+    <div ref={wrapperRef} className={`flex-1 flex items-center justify-center relative w-full h-full ${isInteractionDisabled && !physicsPointer && !isEditingScene ? 'cursor-default' : 'cursor-crosshair'}`} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp} onDoubleClick={handleDoubleClick}>
       <canvas 
         ref={canvasRef} 
         className="block shadow-2xl rounded-sm" 
@@ -0,0 +1,89 @@
+import React from 'react';
+import type { ChainDefinition, RigDefinition } from '../core/types';
+import { HUMANOID_RIG } from '../core/kinematics';
+import { createChainPreset, type ChainPresetKind } from '../core/chains';
+
+interface ChainsPanelProps {
+    chains: ChainDefinition[];
+    onChainsChange: (chains: ChainDefinition[]) => void;
+    rig?: RigDefinition; // Whose bones chains can hang from
+}
+
+const KINDS: ChainPresetKind[] = ['ponytail', 'scarf', 'tail', 'ribbon'];
+
+const toDeg = (rad: number) => Math.round((rad * 180) / Math.PI);
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+const Slider = ({ label, value, min, max, step, onChange }: { label: string; value: number; min: number; max: number; step: number; onChange: (value: number) => void }) => (
+    <label className="flex items-center gap-2 text-xs">
+        <span className="w-20 shrink-0">{label}</span>
+        <input
+            type="range" min={min} max={max} step={step}
+            value={value}
+            onChange={e => onChange(parseFloat(e.target.value))}
+            className="w-full accent-red-500"
+        />
+        <span className="w-10 text-right tabular-nums text-white/50">{value}</span>
+    </label>
+);
+
+export function ChainsPanel({ chains, onChainsChange, rig = HUMANOID_RIG }: ChainsPanelProps) {
+    // Every joint has a bone ending at it.
+    const bones = rig.joints.map(joint => joint.key);
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+    const updateChain = (index: number, patch: Partial<ChainDefinition>) =>
+        onChainsChange(chains.map((c, i) => i === index ? { ...c, ...patch } : c));
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="text-sm text-white">Chains</div>
+            <div className="flex flex-wrap gap-2">
+                {KINDS.map(kind => (
+                    <button key={kind} onClick={() => onChainsChange([...chains, createChainPreset(kind)])} className={chipClass} title={`Add ${kind}`}>
+                        + {kind}
+                    </button>
+                ))}
+                <button onClick={() => onChainsChange([])} disabled={chains.length === 0} className={chipClass} title="Remove all chains">
+                    Clear
+                </button>
+            </div>
+            {chains.map((chain, index) => (
+                <div key={index} className="flex flex-col gap-1">
+                    <div className="flex items-center gap-2 text-xs">
+                        <span>{index + 1}.</span>
+                        <select
+                            value={chain.bone}
+                            onChange={e => updateChain(index, { bone: e.target.value })}
+                            className="w-full bg-white/10 rounded-md px-2 py-1 text-white/70 text-xs"
+                            title="Bone it hangs from"
+                        >
+                            {bones.map(key => <option key={key} value={key}>{key}</option>)}
+                        </select>
+                        <button
+                            onClick={() => updateChain(index, { style: chain.style === 'fill' ? 'stroke' : 'fill' })}
+                            className={chipClass}
+                            title="Draw as a tapering filled ribbon or an even stroke"
+                        >
+                            {chain.style}
+                        </button>
+                        <input
+                            type="color"
+                            value={chain.color}
+                            onChange={e => updateChain(index, { color: e.target.value })}
+                            className="w-6 h-6 shrink-0 bg-transparent"
+                            title="Colour"
+                        />
+                        <button onClick={() => onChainsChange(chains.filter((_, i) => i !== index))} className="text-white/50 hover:text-white" title={`Remove chain ${index + 1}`}>×</button>
+                    </div>
+                    <Slider label="Segments" value={chain.segments} min={2} max={24} step={1} onChange={segments => updateChain(index, { segments })} />
+                    <Slider label="Length" value={chain.length} min={20} max={400} step={5} onChange={length => updateChain(index, { length })} />
+                    <Slider label="Angle" value={toDeg(chain.angle)} min={-180} max={360} step={5} onChange={deg => updateChain(index, { angle: toRad(deg) })} />
+                    <Slider label="Stiffness" value={chain.stiffness} min={0} max={1} step={0.01} onChange={stiffness => updateChain(index, { stiffness })} />
+                    <Slider label="Damping" value={chain.damping} min={0} max={0.5} step={0.01} onChange={damping => updateChain(index, { damping })} />
+                    <Slider label="Width" value={chain.width} min={1} max={60} step={1} onChange={width => updateChain(index, { width })} />
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { Collider, ColliderKind } from '../core/types';
+import { createColliderPreset } from '../core/colliders';
+import { MaterialSelect } from './MaterialSelect';
+
+interface CollidersPanelProps {
+    colliders: Collider[];
+    onCollidersChange: (colliders: Collider[]) => void;
+    isEditing: boolean;
+    onToggleEditing: () => void;
+}
+
+const KINDS: ColliderKind[] = ['floor', 'slope', 'stairs', 'platform', 'polygon'];
+
+export function CollidersPanel({ colliders, onCollidersChange, isEditing, onToggleEditing }: CollidersPanelProps) {
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-white">Colliders</span>
+                <button
+                    onClick={onToggleEditing}
+                    className={`${chipClass} ${isEditing ? 'text-red-500' : ''}`}
+                    title="Drag shapes or their corners. Shift-click an edge to add a corner, Alt-click to delete."
+                >
+                    {isEditing ? 'Done' : 'Edit'}
+                </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {KINDS.map(kind => (
+                    <button key={kind} onClick={() => onCollidersChange([...colliders, createColliderPreset(kind)])} className={chipClass} title={`Add ${kind}`}>
+                        + {kind}
+                    </button>
+                ))}
+                <button onClick={() => onCollidersChange([])} disabled={colliders.length === 0} className={chipClass} title="Remove all colliders">
+                    Clear
+                </button>
+            </div>
+            {colliders.map((collider, index) => (
+                <div key={index} className="flex items-center justify-between text-xs">
+                    <span>{index + 1}. {collider.kind}</span>
+                    <MaterialSelect
+                        material={collider.material}
+                        onChange={material => onCollidersChange(colliders.map((c, i) => i === index ? { ...c, material } : c))}
+                        title={`Material of ${collider.kind} ${index + 1}`}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -1,6 +1,24 @@
 import React from 'react';
 import { Controls } from './Controls';
 import { Timeline } from './Timeline';
+import { PhysicsSettings } from './PhysicsSettings';
+import { JointLimitsPanel } from './JointLimitsPanel';
+import { CollidersPanel } from './CollidersPanel';
+import { ActiveRagdollPanel } from './ActiveRagdollPanel';
+import { ForceFieldsPanel } from './ForceFieldsPanel';
+import { ChainsPanel } from './ChainsPanel';
+import { PropsPanel } from './PropsPanel';
+import { SymmetryPanel } from './SymmetryPanel';
+import { PoseLibraryPanel } from './PoseLibraryPanel';
+import { BodyMaskPanel } from './BodyMaskPanel';
+import { DrawOrderPanel } from './DrawOrderPanel';
+import type { BodyMask } from '../core/masks';
+import type { Side } from '../core/mirror';
+import { BalancePanel } from './BalancePanel';
+import { ProportionsPanel } from './ProportionsPanel';
+import { RigPanel } from './RigPanel';
+import { HUMANOID_RIG } from '../core/kinematics';
+import type { PhysicsConfig, JointLimits, Collider, ActiveRagdollSettings, ForceField, PhysicsScene, Point, ChainDefinition, Balance, BoneScales, PoseData, PropDefinition, PoseLibraryEntry, RigDefinition } from '../core/types';
 
 // Props for Controls
 interface ControlsProps {
@@ -23,9 +41,130 @@ interface TimelineProps {
     isPlaying: boolean;
     onTogglePlay: () => void;
     isPhysicsEnabled: boolean;
+    canPlayWithPhysics: boolean;
+    simFrame: number;
+    simLength: number;
+    simTime: number;
+    isSimPaused: boolean;
+    onSimSeek: (frame: number) => void;
+    onSimTogglePause: () => void;
+    onSimStep: (delta: number) => void;
 }
 
-interface ControlPanelProps extends ControlsProps, TimelineProps {
+// Props for PhysicsSettings
+interface PhysicsSettingsProps {
+    physicsConfig: PhysicsConfig;
+    onPhysicsConfigChange: (config: PhysicsConfig) => void;
+    recordProgress: number | null;
+    onStartRecording: (rate: number, duration: number) => void;
+    onStopRecording: () => void;
+    bodyRestitution: number | null;
+    onBodyRestitutionChange: (restitution: number | null) => void;
+    boneCompliance: { [key: string]: number };
+    onBoneComplianceChange: (compliance: { [key: string]: number }) => void;
+    boneDamping: { [key: string]: number };
+    onBoneDampingChange: (damping: { [key: string]: number }) => void;
+}
+
+// Props for JointLimitsPanel
+interface JointLimitsPanelProps {
+    jointLimits: JointLimits;
+    onJointLimitsChange: (limits: JointLimits) => void;
+    isEditingLimits: boolean;
+    onToggleEditingLimits: () => void;
+}
+
+// Props for CollidersPanel
+interface CollidersPanelProps {
+    colliders: Collider[];
+    onCollidersChange: (colliders: Collider[]) => void;
+    isEditingScene: boolean;
+    onToggleEditingScene: () => void;
+}
+
+// Props for ActiveRagdollPanel
+interface ActiveRagdollPanelProps {
+    activeRagdoll: ActiveRagdollSettings;
+    onActiveRagdollChange: (settings: ActiveRagdollSettings) => void;
+}
+
+// Props for ForceFieldsPanel
+interface ForceFieldsPanelProps {
+    forceFields: ForceField[];
+    onForceFieldsChange: (fields: ForceField[]) => void;
+    onApplyImpulse: (key: string, impulse: Point) => void;
+    onSceneLoad: (scene: PhysicsScene) => void;
+}
+
+// Props for ChainsPanel
+interface ChainsPanelProps {
+    chains: ChainDefinition[];
+    onChainsChange: (chains: ChainDefinition[]) => void;
+}
+
+// Props for BalancePanel
+interface BalancePanelProps {
+    balance: Balance;
+    showBalance: boolean;
+    onToggleShowBalance: () => void;
+    autoBalance: boolean;
+    onToggleAutoBalance: () => void;
+}
+
+// Props for ProportionsPanel
+interface ProportionsPanelProps {
+    poseScale: BoneScales | undefined;
+    selectedPartKey: string | null;
+    onPoseScaleChange: (scale: BoneScales) => void;
+    onProportionPreset: (scale: BoneScales) => void;
+}
+
+// Props for PropsPanel
+interface PropsPanelProps {
+    props: PropDefinition[];
+    onPropsChange: (props: PropDefinition[]) => void;
+    currentPose: PoseData;
+    onPosePropsChange: (props: PoseData['props']) => void;
+}
+
+// Props for SymmetryPanel
+interface SymmetryPanelProps {
+    onMirrorPose: () => void;
+    onMirrorAnimation: () => void;
+    onCopySide: (from: Side, limb?: string) => void;
+}
+
+// Props for PoseLibraryPanel (currentPose is shared with PropsPanel)
+interface PoseLibraryPanelProps {
+    poseLibrary: PoseLibraryEntry[];
+    onPoseLibraryChange: (library: PoseLibraryEntry[]) => void;
+    onApplyPose: (pose: PoseData) => void;
+    onInsertPose: (pose: PoseData) => void;
+}
+
+// Props for BodyMaskPanel (keyframesCount and currentFrame are shared with Timeline)
+interface BodyMaskPanelProps {
+    bodyMask: BodyMask;
+    onBodyMaskChange: (mask: BodyMask) => void;
+    poseClipboard: PoseData | null;
+    onCopyPose: () => void;
+    onPastePose: () => void;
+    onBlendKeyframe: (index: number, t: number) => void;
+}
+
+// Props for DrawOrderPanel
+interface DrawOrderPanelProps {
+    poseLayers: PoseData['layers'];
+    onPoseLayersChange: (layers: PoseData['layers']) => void;
+}
+
+// Props for RigPanel (the rig is also passed to every panel that lists bones)
+interface RigPanelProps {
+    rig: RigDefinition;
+    onRigChange: (rig: RigDefinition) => void;
+}
+
+interface ControlPanelProps extends RigPanelProps, ControlsProps, TimelineProps, PhysicsSettingsProps, JointLimitsPanelProps, CollidersPanelProps, ActiveRagdollPanelProps, ForceFieldsPanelProps, ChainsPanelProps, BalancePanelProps, ProportionsPanelProps, PropsPanelProps, SymmetryPanelProps, PoseLibraryPanelProps, BodyMaskPanelProps, DrawOrderPanelProps {
     uiPosition: 'left' | 'right';
     onToggleUiPosition: () => void;
 }
@@ -37,6 +176,9 @@ export function ControlPanel(props: ControlPanelProps) {
     const {
         uiPosition,
         onToggleUiPosition,
+        // RigPanel props
+        rig,
+        onRigChange,
         // Controls props
         onUndo,
         onRedo,
@@ -52,11 +194,89 @@ export function ControlPanel(props: ControlPanelProps) {
         onAddFrame,
         onDeleteFrame,
         isPlaying,
-        onTogglePlay
+        onTogglePlay,
+        canPlayWithPhysics,
+        simFrame,
+        simLength,
+        simTime,
+        isSimPaused,
+        onSimSeek,
+        onSimTogglePause,
+        onSimStep,
+        // PhysicsSettings props
+        physicsConfig,
+        onPhysicsConfigChange,
+        recordProgress,
+        onStartRecording,
+        onStopRecording,
+        bodyRestitution,
+        onBodyRestitutionChange,
+        boneCompliance,
+        onBoneComplianceChange,
+        boneDamping,
+        onBoneDampingChange,
+        // ActiveRagdollPanel props
+        activeRagdoll,
+        onActiveRagdollChange,
+        // JointLimitsPanel props
+        jointLimits,
+        onJointLimitsChange,
+        isEditingLimits,
+        onToggleEditingLimits,
+        // CollidersPanel props
+        colliders,
+        onCollidersChange,
+        isEditingScene,
+        onToggleEditingScene,
+        // ForceFieldsPanel props
+        forceFields,
+        onForceFieldsChange,
+        onApplyImpulse,
+        onSceneLoad,
+        // ChainsPanel props
+        chains,
+        onChainsChange,
+        // BalancePanel props
+        balance,
+        showBalance,
+        onToggleShowBalance,
+        autoBalance,
+        onToggleAutoBalance,
+        // ProportionsPanel props
+        poseScale,
+        selectedPartKey,
+        onPoseScaleChange,
+        onProportionPreset,
+        // PropsPanel props
+        props: sceneProps,
+        onPropsChange,
+        currentPose,
+        onPosePropsChange,
+        // SymmetryPanel props
+        onMirrorPose,
+        onMirrorAnimation,
+        onCopySide,
+        // PoseLibraryPanel props
+        poseLibrary,
+        onPoseLibraryChange,
+        onApplyPose,
+        onInsertPose,
+        // BodyMaskPanel props
+        bodyMask,
+        onBodyMaskChange,
+        poseClipboard,
+        onCopyPose,
+        onPastePose,
+        onBlendKeyframe,
+        // DrawOrderPanel props
+        poseLayers,
+        onPoseLayersChange
     } = props;
+    // Balance, symmetry, body parts, layers and the pose library are built around the mannequin.
+    const isHumanoid = rig === HUMANOID_RIG;
 
     return (
-        <div className={`w-72 bg-[#1a1a1a] text-white/70 p-4 flex flex-col gap-6 border-white/10 ${uiPosition === 'left' ? 'border-r' : 'border-l'}`}>
+        <div className={`w-72 bg-[#1a1a1a] text-white/70 p-4 flex flex-col gap-6 overflow-y-auto border-white/10 ${uiPosition === 'left' ? 'border-r' : 'border-l'}`}>
             <div className="flex items-center justify-between">
                 <h1 className="text-xl font-semibold text-white">PYXL.PUPPT</h1>
                 <button 
@@ -68,6 +288,11 @@ export function ControlPanel(props: ControlPanelProps) {
                 </button>
             </div>
 
+            <RigPanel
+                rig={rig}
+                onRigChange={onRigChange}
+            />
+
             <Controls
                 onUndo={onUndo}
                 onRedo={onRedo}
@@ -87,6 +312,127 @@ export function ControlPanel(props: ControlPanelProps) {
                 isPlaying={isPlaying}
                 onTogglePlay={onTogglePlay}
                 isPhysicsEnabled={isPhysicsEnabled}
+                canPlayWithPhysics={canPlayWithPhysics}
+                simFrame={simFrame}
+                simLength={simLength}
+                simTime={simTime}
+                isSimPaused={isSimPaused}
+                onSimSeek={onSimSeek}
+                onSimTogglePause={onSimTogglePause}
+                onSimStep={onSimStep}
+            />
+
+            {isHumanoid && (
+                <BalancePanel
+                    balance={balance}
+                    showBalance={showBalance}
+                    onToggleShowBalance={onToggleShowBalance}
+                    autoBalance={autoBalance}
+                    onToggleAutoBalance={onToggleAutoBalance}
+                />
+            )}
+
+            <ProportionsPanel
+                scale={poseScale}
+                selectedPartKey={selectedPartKey}
+                onScaleChange={onPoseScaleChange}
+                onPresetSelect={onProportionPreset}
+                rig={rig}
+            />
+
+            {isHumanoid && (
+                <>
+                    <DrawOrderPanel
+                        layers={poseLayers}
+                        onLayersChange={onPoseLayersChange}
+                    />
+
+                    <BodyMaskPanel
+                        mask={bodyMask}
+                        onMaskChange={onBodyMaskChange}
+                        keyframesCount={keyframesCount}
+                        currentFrame={currentFrame}
+                        clipboard={poseClipboard}
+                        onCopyPose={onCopyPose}
+                        onPastePose={onPastePose}
+                        onBlendKeyframe={onBlendKeyframe}
+                    />
+
+                    <PoseLibraryPanel
+                        library={poseLibrary}
+                        onLibraryChange={onPoseLibraryChange}
+                        currentPose={currentPose}
+                        onApplyPose={onApplyPose}
+                        onInsertPose={onInsertPose}
+                    />
+
+                    <SymmetryPanel
+                        onMirrorPose={onMirrorPose}
+                        onMirrorAnimation={onMirrorAnimation}
+                        onCopySide={onCopySide}
+                    />
+                </>
+            )}
+
+            <PhysicsSettings
+                config={physicsConfig}
+                onConfigChange={onPhysicsConfigChange}
+                isPhysicsEnabled={isPhysicsEnabled}
+                recordProgress={recordProgress}
+                onStartRecording={onStartRecording}
+                onStopRecording={onStopRecording}
+                bodyRestitution={bodyRestitution}
+                onBodyRestitutionChange={onBodyRestitutionChange}
+                boneCompliance={boneCompliance}
+                onBoneComplianceChange={onBoneComplianceChange}
+                boneDamping={boneDamping}
+                onBoneDampingChange={onBoneDampingChange}
+                rig={rig}
+            />
+
+            <ActiveRagdollPanel
+                settings={activeRagdoll}
+                onSettingsChange={onActiveRagdollChange}
+                rig={rig}
+            />
+
+            <ChainsPanel
+                chains={chains}
+                onChainsChange={onChainsChange}
+                rig={rig}
+            />
+
+            <PropsPanel
+                props={sceneProps}
+                onPropsChange={onPropsChange}
+                pose={currentPose}
+                onPosePropsChange={onPosePropsChange}
+                rig={rig}
+            />
+
+            <JointLimitsPanel
+                limits={jointLimits}
+                onLimitsChange={onJointLimitsChange}
+                isEditing={isEditingLimits}
+                onToggleEditing={onToggleEditingLimits}
+                rig={rig}
+            />
+
+            <CollidersPanel
+                colliders={colliders}
+                onCollidersChange={onCollidersChange}
+                isEditing={isEditingScene}
+                onToggleEditing={onToggleEditingScene}
+            />
+
+            <ForceFieldsPanel
+                forceFields={forceFields}
+                onForceFieldsChange={onForceFieldsChange}
+                isPhysicsEnabled={isPhysicsEnabled}
+                onApplyImpulse={onApplyImpulse}
+                scene={{ colliders, forceFields, props: sceneProps }}
+                onSceneLoad={onSceneLoad}
+                rig={rig}
             />
             
             <div className="mt-auto text-xs text-white/30 text-center">
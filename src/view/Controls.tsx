@@ -29,7 +29,7 @@ export function Controls({ onUndo, onRedo, canUndo, canRedo, onReset, onTogglePh
       <div className="w-px h-6 bg-white/10"></div>
 
        <div className="flex items-center gap-2">
-        <button onClick={onReset} className={buttonClass} title="Reset to T-Pose" aria-label="Reset to T-Pose"><ResetIcon /></button>
+        <button onClick={onReset} className={buttonClass} title="Reset the parts picked under Body Parts to T-Pose" aria-label="Reset to T-Pose"><ResetIcon /></button>
         <button onClick={onTogglePhysics} className={`${buttonClass} ${isPhysicsEnabled ? 'text-red-500' : ''}`} title="Toggle Ragdoll Physics" aria-label="Toggle Ragdoll Physics"><FeatherIcon/></button>
       </div>
      </div>
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { PoseData } from '../core/types';
+import { getLimbRoots } from '../core/mirror';
+
+interface DrawOrderPanelProps {
+    layers: PoseData['layers']; // The current keyframe's
+    onLayersChange: (layers: PoseData['layers']) => void;
+}
+
+// Each limb is layered by the bone it starts at; the trunk stays on layer 0.
+const LIMBS = (['left', 'right'] as const).flatMap(side => getLimbRoots(undefined, side).map(root => `${side}.${root}`));
+const LIMB_NAMES: { [root: string]: string } = { shoulder: 'arm', hip: 'leg' };
+const LAYERS = [
+    { label: 'back', layer: -1, title: 'Draw behind the rest of the body' },
+    { label: 'auto', layer: 0, title: 'Draw in the usual order' },
+    { label: 'front', layer: 1, title: 'Draw in front of the body' },
+];
+
+const limbName = (key: string) => {
+    const [side, root] = key.split('.');
+    return `${side} ${LIMB_NAMES[root] ?? root}`;
+};
+
+export function DrawOrderPanel({ layers, onLayersChange }: DrawOrderPanelProps) {
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors";
+
+    const setLayer = (key: string, layer: number) => {
+        const { [key]: _, ...rest } = layers ?? {};
+        onLayersChange(layer === 0 ? rest : { ...rest, [key]: layer });
+    };
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="text-sm text-white">Draw Order</div>
+            {LIMBS.map(key => (
+                <div key={key} className="flex items-center justify-between gap-2 text-xs">
+                    <span>{limbName(key)}</span>
+                    <div className="flex gap-1">
+                        {LAYERS.map(({ label, layer, title }) => (
+                            <button
+                                key={label}
+                                onClick={() => setLayer(key, layer)}
+                                className={`${chipClass} ${(layers?.[key] ?? 0) === layer ? 'text-red-500' : ''}`}
+                                title={`${title} in this keyframe`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import type { ForceField, ForceFieldKind, PhysicsScene, Point, RigDefinition } from '../core/types';
+import { HUMANOID_RIG } from '../core/kinematics';
+import { getRigTables } from '../core/rig';
+import { createForceFieldPreset } from '../core/forces';
+import { serializeScene, parseScene } from '../core/scene';
+
+interface ForceFieldsPanelProps {
+    forceFields: ForceField[];
+    onForceFieldsChange: (fields: ForceField[]) => void;
+    isPhysicsEnabled: boolean;
+    onApplyImpulse: (key: string, impulse: Point) => void;
+    scene: PhysicsScene;
+    onSceneLoad: (scene: PhysicsScene) => void;
+    rig?: RigDefinition; // Whose parts can be punched
+}
+
+const KINDS: ForceFieldKind[] = ['wind', 'explosion', 'attractor'];
+
+const toDeg = (rad: number) => Math.round((rad * 180) / Math.PI);
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+const Slider = ({ label, value, min, max, step, onChange }: { label: string; value: number; min: number; max: number; step: number; onChange: (value: number) => void }) => (
+    <label className="flex items-center gap-2 text-xs">
+        <span className="w-20 shrink-0">{label}</span>
+        <input
+            type="range" min={min} max={max} step={step}
+            value={value}
+            onChange={e => onChange(parseFloat(e.target.value))}
+            className="w-full accent-red-500"
+        />
+        <span className="w-10 text-right tabular-nums text-white/50">{value}</span>
+    </label>
+);
+
+export function ForceFieldsPanel({ forceFields, onForceFieldsChange, isPhysicsEnabled, onApplyImpulse, scene, onSceneLoad, rig = HUMANOID_RIG }: ForceFieldsPanelProps) {
+    const [punchKey, setPunchKey] = useState('head');
+    const [punchAngle, setPunchAngle] = useState(180);
+    const [punchStrength, setPunchStrength] = useState(800);
+    const [loadError, setLoadError] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+    const updateField = (index: number, patch: Partial<ForceField>) =>
+        onForceFieldsChange(forceFields.map((f, i) => i === index ? { ...f, ...patch } : f));
+
+    const punch = () => {
+        const angle = toRad(punchAngle);
+        onApplyImpulse(punchKey, { x: Math.cos(angle) * punchStrength, y: Math.sin(angle) * punchStrength });
+    };
+
+    const saveScene = () => {
+        const blob = new Blob([serializeScene(scene)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.download = 'pyxl-scene.json';
+        link.href = URL.createObjectURL(blob);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    };
+
+    const loadScene = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow the same file to be picked again
+        if (!file) return;
+        const loaded = parseScene(await file.text());
+        setLoadError(!loaded);
+        if (loaded) onSceneLoad(loaded);
+    };
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-white">Forces</span>
+                <div className="flex gap-2">
+                    <button onClick={saveScene} className={chipClass} title="Save colliders, force fields and props to a file">Save Scene</button>
+                    <button onClick={() => fileInputRef.current?.click()} className={`${chipClass} ${loadError ? 'text-red-500' : ''}`} title={loadError ? 'That file is not a saved scene' : 'Load colliders, force fields and props from a file'}>
+                        Load
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={loadScene} className="hidden" />
+                </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {KINDS.map(kind => (
+                    <button key={kind} onClick={() => onForceFieldsChange([...forceFields, createForceFieldPreset(kind)])} className={chipClass} title={`Add ${kind}. Drag its centre while editing the scene, Alt-click to delete.`}>
+                        + {kind}
+                    </button>
+                ))}
+                <button onClick={() => onForceFieldsChange([])} disabled={forceFields.length === 0} className={chipClass} title="Remove all force fields">
+                    Clear
+                </button>
+            </div>
+            {forceFields.map((field, index) => (
+                <div key={index} className="flex flex-col gap-1">
+                    <div className="flex items-center justify-between text-xs">
+                        <span>{index + 1}. {field.kind}</span>
+                        <button onClick={() => onForceFieldsChange(forceFields.filter((_, i) => i !== index))} className="text-white/50 hover:text-white" title={`Remove ${field.kind} ${index + 1}`}>×</button>
+                    </div>
+                    <Slider
+                        label="Strength" value={field.strength} step={50}
+                        min={field.kind === 'attractor' ? -8000 : 0} max={field.kind === 'wind' ? 3000 : 8000}
+                        onChange={strength => updateField(index, { strength })}
+                    />
+                    <Slider label="Radius" value={field.radius} min={0} max={800} step={10} onChange={radius => updateField(index, { radius })} />
+                    {field.kind === 'wind' && (
+                        <>
+                            <Slider label="Direction" value={toDeg(field.direction)} min={-180} max={180} step={5} onChange={deg => updateField(index, { direction: toRad(deg) })} />
+                            <Slider label="Turbulence" value={field.turbulence} min={0} max={1} step={0.05} onChange={turbulence => updateField(index, { turbulence })} />
+                        </>
+                    )}
+                    {field.kind === 'explosion' && (
+                        <Slider label="Time (s)" value={field.time} min={0} max={10} step={0.1} onChange={time => updateField(index, { time })} />
+                    )}
+                </div>
+            ))}
+
+            <div className="h-px bg-white/10"></div>
+            <div className="flex items-center gap-2 text-xs">
+                <span className="w-20 shrink-0">Punch</span>
+                <select
+                    value={punchKey}
+                    onChange={e => setPunchKey(e.target.value)}
+                    className="w-full bg-white/10 rounded-md px-2 py-1 text-white/70 text-xs"
+                    title="Part to hit"
+                >
+                    {Object.keys(getRigTables(rig).hierarchy).map(key => <option key={key} value={key}>{key}</option>)}
+                </select>
+            </div>
+            <Slider label="Direction" value={punchAngle} min={-180} max={180} step={5} onChange={setPunchAngle} />
+            <Slider label="Strength" value={punchStrength} min={0} max={4000} step={50} onChange={setPunchStrength} />
+            <button
+                onClick={punch}
+                disabled={!isPhysicsEnabled}
+                className="rounded-md py-1.5 text-xs transition-colors bg-white/10 hover:bg-white/20 text-white/70 disabled:opacity-30 disabled:hover:bg-white/10 disabled:cursor-not-allowed"
+                title="Hit the part while the simulation runs"
+            >
+                Apply Impulse
+            </button>
+        </div>
+    );
+}
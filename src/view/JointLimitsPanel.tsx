@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import type { JointLimits, RigDefinition } from '../core/types';
+import { HUMANOID_RIG } from '../core/kinematics';
+import { canSimulateLimit } from '../core/physics';
+
+interface JointLimitsPanelProps {
+    limits: JointLimits;
+    onLimitsChange: (limits: JointLimits) => void;
+    isEditing: boolean; // Limit wedges shown and draggable on the canvas
+    onToggleEditing: () => void;
+    rig?: RigDefinition; // Whose joints are listed
+}
+
+const toDeg = (rad: number) => Math.round((rad * 180) / Math.PI);
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Range used when a previously free joint gets a limit switched on.
+const DEFAULT_RANGE = { min: toRad(-90), max: toRad(90) };
+
+export function JointLimitsPanel({ limits, onLimitsChange, isEditing, onToggleEditing, rig = HUMANOID_RIG }: JointLimitsPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors";
+
+    const setRange = (key: string, range: { min: number; max: number } | null) => {
+        const next = { ...limits };
+        if (range) {
+            next[key] = range;
+        } else {
+            delete next[key];
+        }
+        onLimitsChange(next);
+    };
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between text-sm">
+                <button onClick={() => setIsOpen(o => !o)} className="flex items-center gap-2 text-white">
+                    <span className="text-white/50">{isOpen ? '−' : '+'}</span>
+                    <span>Joint Limits</span>
+                </button>
+                <button
+                    onClick={onToggleEditing}
+                    className={`${chipClass} ${isEditing ? 'text-red-500' : ''}`}
+                    title="Drag the ends of the wedges on the canvas. Press X during a drag to ignore limits."
+                >
+                    {isEditing ? 'Done' : 'Edit'}
+                </button>
+            </div>
+            {isOpen && rig.joints.map(({ key }) => {
+                const range = limits[key];
+                return (
+                    <div key={key} className="flex flex-col gap-1 text-xs">
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={!!range}
+                                onChange={e => setRange(key, e.target.checked ? DEFAULT_RANGE : null)}
+                                className="accent-red-500"
+                            />
+                            <span>{key}</span>
+                            {!canSimulateLimit(key, rig) && <span className="text-white/40" title="Applies while posing; the ragdoll does not enforce it">pose only</span>}
+                            {range && <span className="ml-auto tabular-nums text-white/50">{toDeg(range.min)}° / {toDeg(range.max)}°</span>}
+                        </label>
+                        {range && (
+                            <div className="flex gap-2">
+                                <input
+                                    type="range" min={-180} max={180} step={1}
+                                    value={toDeg(range.min)}
+                                    onChange={e => setRange(key, { min: Math.min(toRad(parseFloat(e.target.value)), range.max), max: range.max })}
+                                    className="w-full accent-red-500"
+                                    title={`${key} minimum`}
+                                />
+                                <input
+                                    type="range" min={-180} max={180} step={1}
+                                    value={toDeg(range.max)}
+                                    onChange={e => setRange(key, { min: range.min, max: Math.max(toRad(parseFloat(e.target.value)), range.min) })}
+                                    className="w-full accent-red-500"
+                                    title={`${key} maximum`}
+                                />
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,24 @@
+import React from 'react';
+import type { SurfaceMaterial } from '../core/types';
+import { SURFACE_MATERIALS } from '../core/colliders';
+
+interface MaterialSelectProps {
+    material: SurfaceMaterial;
+    onChange: (material: SurfaceMaterial) => void;
+    title: string;
+}
+
+export function MaterialSelect({ material, onChange, title }: MaterialSelectProps) {
+    const activeName = Object.keys(SURFACE_MATERIALS).find(name => JSON.stringify(SURFACE_MATERIALS[name]) === JSON.stringify(material)) ?? '';
+    return (
+        <select
+            value={activeName}
+            onChange={e => { const preset = SURFACE_MATERIALS[e.target.value]; if (preset) onChange(preset); }}
+            className="bg-white/10 rounded-md px-2 py-1 text-white/70 text-xs"
+            title={title}
+        >
+            {activeName === '' && <option value="">custom</option>}
+            {Object.keys(SURFACE_MATERIALS).map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+    );
+}
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import type { PhysicsConfig, PhysicsSolver, RigDefinition } from '../core/types';
+import { PHYSICS_PRESETS } from '../core/physics';
+import { HUMANOID_RIG } from '../core/kinematics';
+import { getRigTables } from '../core/rig';
+import { MaterialSelect } from './MaterialSelect';
+
+interface PhysicsSettingsProps {
+    config: PhysicsConfig;
+    onConfigChange: (config: PhysicsConfig) => void;
+    isPhysicsEnabled: boolean;
+    recordProgress: number | null;
+    onStartRecording: (rate: number, duration: number) => void;
+    onStopRecording: () => void;
+    bodyRestitution: number | null; // null: the body bounces like whatever it hits
+    onBodyRestitutionChange: (restitution: number | null) => void;
+    boneCompliance: { [key: string]: number }; // XPBD overrides, keyed by the joint whose bone they stiffen
+    onBoneComplianceChange: (compliance: { [key: string]: number }) => void;
+    boneDamping: { [key: string]: number };    // XPBD overrides, keyed the same way
+    onBoneDampingChange: (damping: { [key: string]: number }) => void;
+    rig?: RigDefinition; // Whose bones get override sliders
+}
+const MAX_COMPLIANCE = 0.002;
+const COMPLIANCE_STEP = 0.00005;
+const MAX_DAMPING = 100;
+
+// One slider per bone, each off (following the global value) until its box is ticked.
+const BoneOverrides = ({ bones, label, values, fallback, max, step, onChange }: { bones: string[]; label: string; values: { [key: string]: number }; fallback: number; max: number; step: number; onChange: (values: { [key: string]: number }) => void }) => {
+    const setValue = (key: string, value: number | null) => {
+        const next = { ...values };
+        if (value === null) {
+            delete next[key];
+        } else {
+            next[key] = value;
+        }
+        onChange(next);
+    };
+
+    return (
+        <>
+            {bones.map(key => {
+                const value = values[key];
+                return (
+                    <div key={key} className="flex items-center gap-2 text-xs">
+                        <input
+                            type="checkbox"
+                            checked={value !== undefined}
+                            onChange={e => setValue(key, e.target.checked ? fallback : null)}
+                            className="accent-red-500"
+                            title={`Give ${key} its own ${label}`}
+                        />
+                        <span className="w-24 shrink-0">{key}</span>
+                        <input
+                            type="range" min={0} max={max} step={step}
+                            value={value ?? fallback}
+                            disabled={value === undefined}
+                            onChange={e => setValue(key, parseFloat(e.target.value))}
+                            className="w-full accent-red-500 disabled:opacity-30"
+                            title={`${key} ${label}`}
+                        />
+                    </div>
+                );
+            })}
+        </>
+    );
+};
+
+const Slider = ({ label, value, min, max, step, onChange }: { label: string; value: number; min: number; max: number; step: number; onChange: (value: number) => void }) => (
+    <label className="flex flex-col gap-1 text-xs">
+        <div className="flex justify-between">
+            <span>{label}</span>
+            <span className="tabular-nums text-white/50">{value}</span>
+        </div>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={e => onChange(parseFloat(e.target.value))}
+            className="w-full accent-red-500"
+        />
+    </label>
+);
+
+export function PhysicsSettings({ config, onConfigChange, isPhysicsEnabled, recordProgress, onStartRecording, onStopRecording, bodyRestitution, onBodyRestitutionChange, boneCompliance, onBoneComplianceChange, boneDamping, onBoneDampingChange, rig = HUMANOID_RIG }: PhysicsSettingsProps) {
+    // Only bones with a particle at both ends have a link to stiffen; hands and feet don't.
+    const bones = Object.keys(getRigTables(rig).segments);
+    const [recordRate, setRecordRate] = useState(12);
+    const [recordDuration, setRecordDuration] = useState(2);
+    const [isBonesOpen, setIsBonesOpen] = useState(false);
+    const [isBoneDampingOpen, setIsBoneDampingOpen] = useState(false);
+    const isRecording = recordProgress !== null;
+
+    const activePreset = Object.keys(PHYSICS_PRESETS).find(name => JSON.stringify(PHYSICS_PRESETS[name]) === JSON.stringify(config)) ?? '';
+
+    const update = (patch: Partial<PhysicsConfig>) => onConfigChange({ ...config, ...patch });
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-white">Physics</span>
+                <select
+                    value={activePreset}
+                    onChange={e => { const preset = PHYSICS_PRESETS[e.target.value]; if (preset) onConfigChange(preset); }}
+                    className="bg-white/10 rounded-md px-2 py-1 text-white/70 text-xs"
+                    title="Physics Preset"
+                >
+                    {activePreset === '' && <option value="">custom</option>}
+                    {Object.keys(PHYSICS_PRESETS).map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+            </div>
+            <Slider label="Gravity" value={config.gravity.y} min={0} max={6000} step={50} onChange={y => update({ gravity: { ...config.gravity, y } })} />
+            <Slider label="Friction" value={config.friction} min={0.7} max={1} step={0.005} onChange={friction => update({ friction })} />
+            <div className="flex items-center justify-between text-xs">
+                <span>Solver</span>
+                <select
+                    value={config.solver}
+                    onChange={e => update({ solver: e.target.value as PhysicsSolver })}
+                    className="bg-white/10 rounded-md px-2 py-1 text-white/70 text-xs"
+                    title="XPBD behaves the same at any iteration count, substep count or frame rate"
+                >
+                    <option value="pbd">PBD</option>
+                    <option value="xpbd">XPBD</option>
+                </select>
+            </div>
+            {config.solver === 'pbd' && <Slider label="Stiffness" value={config.stiffness} min={0.05} max={1} step={0.05} onChange={stiffness => update({ stiffness })} />}
+            {config.solver === 'xpbd' && (
+                <>
+                    <Slider label="Compliance" value={config.compliance} min={0} max={MAX_COMPLIANCE} step={COMPLIANCE_STEP} onChange={compliance => update({ compliance })} />
+                    <Slider label="Bone Damping" value={config.constraintDamping} min={0} max={MAX_DAMPING} step={1} onChange={constraintDamping => update({ constraintDamping })} />
+                    <button onClick={() => setIsBonesOpen(o => !o)} className="flex items-center justify-between text-xs text-white/70">
+                        <span>Per-Bone Compliance</span>
+                        <span className="text-white/50">{isBonesOpen ? '−' : '+'}</span>
+                    </button>
+                    {isBonesOpen && <BoneOverrides bones={bones} label="compliance" values={boneCompliance} fallback={config.compliance} max={MAX_COMPLIANCE} step={COMPLIANCE_STEP} onChange={onBoneComplianceChange} />}
+                    <button onClick={() => setIsBoneDampingOpen(o => !o)} className="flex items-center justify-between text-xs text-white/70">
+                        <span>Per-Bone Damping</span>
+                        <span className="text-white/50">{isBoneDampingOpen ? '−' : '+'}</span>
+                    </button>
+                    {isBoneDampingOpen && <BoneOverrides bones={bones} label="damping" values={boneDamping} fallback={config.constraintDamping} max={MAX_DAMPING} step={1} onChange={onBoneDampingChange} />}
+                </>
+            )}
+            <Slider label="Iterations" value={config.solverIterations} min={1} max={40} step={1} onChange={solverIterations => update({ solverIterations })} />
+            <Slider label="Substeps" value={config.substeps} min={1} max={8} step={1} onChange={substeps => update({ substeps })} />
+            <div className="flex items-center justify-between text-xs">
+                <span>Edges</span>
+                <MaterialSelect material={config.edgeMaterial} onChange={edgeMaterial => update({ edgeMaterial })} title="Canvas edge material" />
+            </div>
+            <label className="flex items-center gap-2 text-xs">
+                <input
+                    type="checkbox"
+                    checked={bodyRestitution !== null}
+                    onChange={e => onBodyRestitutionChange(e.target.checked ? 0.5 : null)}
+                    className="accent-red-500"
+                />
+                <span>Body Bounce</span>
+                <span className="ml-auto tabular-nums text-white/50">{bodyRestitution ?? 'surface'}</span>
+            </label>
+            {bodyRestitution !== null && (
+                <input
+                    type="range" min={0} max={1} step={0.05}
+                    value={bodyRestitution}
+                    onChange={e => onBodyRestitutionChange(parseFloat(e.target.value))}
+                    className="w-full accent-red-500"
+                    title="The body's own bounciness, used in place of the surfaces'"
+                />
+            )}
+
+            <div className="h-px bg-white/10"></div>
+            <Slider label="Record Rate (fps)" value={recordRate} min={1} max={30} step={1} onChange={setRecordRate} />
+            <Slider label="Record Duration (s)" value={recordDuration} min={0.5} max={10} step={0.5} onChange={setRecordDuration} />
+            <button
+                onClick={() => isRecording ? onStopRecording() : onStartRecording(recordRate, recordDuration)}
+                disabled={!isPhysicsEnabled}
+                className={`relative overflow-hidden rounded-md py-1.5 text-xs transition-colors bg-white/10 hover:bg-white/20 disabled:opacity-30 disabled:hover:bg-white/10 disabled:cursor-not-allowed ${isRecording ? 'text-red-500' : 'text-white/70'}`}
+                title={isRecording ? 'Stop and bake what was recorded' : 'Record the simulation into keyframes'}
+            >
+                {isRecording && <span className="absolute inset-y-0 left-0 bg-red-500/20" style={{ width: `${recordProgress! * 100}%` }}></span>}
+                <span className="relative">{isRecording ? `Recording ${Math.round(recordProgress! * 100)}%` : 'Record Simulation'}</span>
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PoseData, PoseLibraryEntry } from '../core/types';
+import { computeSkeleton } from '../core/kinematics';
+import { BUILT_IN_POSES, addToLibrary, searchLibrary, serializePoseLibrary, parsePoseLibrary } from '../core/poseLibrary';
+import { drawSkeletonThumbnail, getDrawOrder } from './drawing';
+
+interface PoseLibraryPanelProps {
+    library: PoseLibraryEntry[]; // The user's poses; the built-in ones are always listed first
+    onLibraryChange: (library: PoseLibraryEntry[]) => void;
+    currentPose: PoseData;
+    onApplyPose: (pose: PoseData) => void;  // Replace the current keyframe
+    onInsertPose: (pose: PoseData) => void; // Add as a keyframe after the current one
+}
+
+const THUMBNAIL_SIZE = 56;
+
+const PoseThumbnail = ({ pose }: { pose: PoseData }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        ctx.clearRect(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+        drawSkeletonThumbnail(ctx, computeSkeleton(pose), THUMBNAIL_SIZE, THUMBNAIL_SIZE, getDrawOrder(pose));
+    }, [pose]);
+    return <canvas ref={canvasRef} width={THUMBNAIL_SIZE} height={THUMBNAIL_SIZE} className="shrink-0 rounded-md bg-[#F4F1DE]" />;
+};
+
+export function PoseLibraryPanel({ library, onLibraryChange, currentPose, onApplyPose, onInsertPose }: PoseLibraryPanelProps) {
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+    const inputClass = "w-full bg-white/10 rounded-md px-2 py-1 text-white/70 text-xs placeholder:text-white/30";
+    const [name, setName] = useState('');
+    const [tags, setTags] = useState('');
+    const [query, setQuery] = useState('');
+    const [loadError, setLoadError] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const save = () => {
+        const entry: PoseLibraryEntry = {
+            name: name.trim(),
+            tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+            pose: JSON.parse(JSON.stringify(currentPose)),
+        };
+        onLibraryChange(addToLibrary(library, entry));
+        setName('');
+        setTags('');
+    };
+
+    const exportLibrary = () => {
+        const blob = new Blob([serializePoseLibrary(library)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.download = 'pyxl-poses.json';
+        link.href = URL.createObjectURL(blob);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    };
+
+    const importLibrary = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow the same file to be picked again
+        if (!file) return;
+        const loaded = parsePoseLibrary(await file.text());
+        setLoadError(!loaded);
+        // Imported poses join the library; ones with a name already in it replace it.
+        if (loaded) onLibraryChange(loaded.reduce(addToLibrary, library));
+    };
+
+    const entries = [
+        ...searchLibrary(BUILT_IN_POSES, query).map(entry => ({ entry, isBuiltIn: true })),
+        ...searchLibrary(library, query).map(entry => ({ entry, isBuiltIn: false })),
+    ];
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-white">Pose Library</span>
+                <div className="flex gap-2">
+                    <button onClick={exportLibrary} disabled={library.length === 0} className={chipClass} title="Save your poses to a file">Export</button>
+                    <button onClick={() => fileInputRef.current?.click()} className={`${chipClass} ${loadError ? 'text-red-500' : ''}`} title={loadError ? 'That file is not a pose library' : 'Add poses from a file'}>
+                        Import
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={importLibrary} className="hidden" />
+                </div>
+            </div>
+            <div className="flex flex-col gap-2">
+                <input value={name} onChange={e => setName(e.target.value)} placeholder="Name" className={inputClass} />
+                <div className="flex gap-2">
+                    <input value={tags} onChange={e => setTags(e.target.value)} placeholder="Tags, comma separated" className={inputClass} />
+                    <button onClick={save} disabled={!name.trim()} className={`${chipClass} shrink-0`} title="Save this keyframe's pose; a pose with the same name is replaced">Save</button>
+                </div>
+            </div>
+            <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search names and tags" className={inputClass} />
+            {entries.map(({ entry, isBuiltIn }) => (
+                <div key={`${isBuiltIn ? 'built-in' : 'user'}:${entry.name}`} className="flex items-center gap-2 text-xs">
+                    <PoseThumbnail pose={entry.pose} />
+                    <div className="flex flex-col gap-1 min-w-0 w-full">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="truncate text-white/90">{entry.name}</span>
+                            {!isBuiltIn && (
+                                <button onClick={() => onLibraryChange(library.filter(e => e !== entry))} className="text-white/50 hover:text-white" title={`Remove ${entry.name}`}>×</button>
+                            )}
+                        </div>
+                        <span className="truncate text-white/40">{[...(isBuiltIn ? ['built-in'] : []), ...entry.tags].join(', ')}</span>
+                        <div className="flex gap-2">
+                            <button onClick={() => onApplyPose(entry.pose)} className={chipClass} title="Pose the current keyframe like this">Apply</button>
+                            <button onClick={() => onInsertPose(entry.pose)} className={chipClass} title="Add this pose as a new keyframe after the current one">+ Frame</button>
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
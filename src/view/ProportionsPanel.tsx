@@ -0,0 +1,70 @@
+import React from 'react';
+import type { BoneScales, RigDefinition } from '../core/types';
+import { PROPORTION_PRESETS, HUMANOID_RIG } from '../core/kinematics';
+import { getRigJoint } from '../core/rig';
+
+interface ProportionsPanelProps {
+    scale: BoneScales | undefined; // The current keyframe's
+    selectedPartKey: string | null;
+    onScaleChange: (scale: BoneScales) => void;  // Squash and stretch of this keyframe only
+    onPresetSelect: (scale: BoneScales) => void; // A body type, for every keyframe
+    rig?: RigDefinition; // The body types are the mannequin's, so other rigs only get the sliders
+}
+
+const Slider = ({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) => (
+    <label className="flex items-center gap-2 text-xs">
+        <span className="w-16 shrink-0">{label}</span>
+        <input
+            type="range" min={0.2} max={2.5} step={0.05}
+            value={value}
+            onChange={e => onChange(parseFloat(e.target.value))}
+            className="w-full accent-red-500"
+        />
+        <span className="w-10 text-right tabular-nums text-white/50">{value.toFixed(2)}</span>
+    </label>
+);
+
+export function ProportionsPanel({ scale = {}, selectedPartKey, onScaleChange, onPresetSelect, rig = HUMANOID_RIG }: ProportionsPanelProps) {
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors";
+    const current = JSON.stringify(scale);
+    const bone = selectedPartKey && getRigJoint(rig, selectedPartKey) ? selectedPartKey : null;
+    const boneScale = bone ? scale[bone] ?? { length: 1, width: 1 } : null;
+
+    const setBoneScale = (key: string, patch: Partial<{ length: number; width: number }>) => {
+        const next = { ...scale, [key]: { length: 1, width: 1, ...scale[key], ...patch } };
+        if (next[key].length === 1 && next[key].width === 1) delete next[key];
+        onScaleChange(next);
+    };
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="text-sm text-white">Proportions</div>
+            {rig === HUMANOID_RIG && (
+                <div className="flex flex-wrap gap-2">
+                    {Object.entries(PROPORTION_PRESETS).map(([name, preset]) => (
+                        <button
+                            key={name}
+                            onClick={() => onPresetSelect(preset)}
+                            className={`${chipClass} ${JSON.stringify(preset) === current ? 'text-red-500' : ''}`}
+                            title={`Give every keyframe ${name} proportions`}
+                        >
+                            {name}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {bone && boneScale ? (
+                <div className="flex flex-col gap-1">
+                    <div className="flex items-center justify-between text-xs">
+                        <span>{bone}</span>
+                        <button onClick={() => setBoneScale(bone, { length: 1, width: 1 })} className="text-white/50 hover:text-white" title="Back to the rig's size">Reset</button>
+                    </div>
+                    <Slider label="Length" value={boneScale.length} onChange={length => setBoneScale(bone, { length })} />
+                    <Slider label="Width" value={boneScale.width} onChange={width => setBoneScale(bone, { width })} />
+                </div>
+            ) : (
+                <div className="text-xs text-white/50">Select a part to squash or stretch it.</div>
+            )}
+        </div>
+    );
+}
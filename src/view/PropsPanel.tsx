@@ -0,0 +1,126 @@
+import React, { useRef } from 'react';
+import type { PoseData, PropAttachment, PropDefinition, RigDefinition } from '../core/types';
+import { computeRigSkeleton, HUMANOID_RIG, W, H } from '../core/kinematics';
+import { createPropPreset, getUniquePropId, getPropAttachment, reparentAttachment, type PropPresetKind } from '../core/props';
+
+interface PropsPanelProps {
+    props: PropDefinition[];
+    onPropsChange: (props: PropDefinition[]) => void;
+    pose: PoseData; // The current keyframe, whose attachments the panel edits
+    onPosePropsChange: (props: PoseData['props']) => void;
+    rig?: RigDefinition; // The rig the pose is for, whose bones can hold props
+}
+
+const KINDS: PropPresetKind[] = ['hat', 'sword', 'cup', 'ball'];
+const SET_DOWN = ''; // Select value for a prop lying in the world
+
+const toDeg = (rad: number) => Math.round((rad * 180) / Math.PI);
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+const Slider = ({ label, value, min, max, step, onChange }: { label: string; value: number; min: number; max: number; step: number; onChange: (value: number) => void }) => (
+    <label className="flex items-center gap-2 text-xs">
+        <span className="w-20 shrink-0">{label}</span>
+        <input
+            type="range" min={min} max={max} step={step}
+            value={value}
+            onChange={e => onChange(parseFloat(e.target.value))}
+            className="w-full accent-red-500"
+        />
+        <span className="w-10 text-right tabular-nums text-white/50">{value}</span>
+    </label>
+);
+
+export function PropsPanel({ props, onPropsChange, pose, onPosePropsChange, rig = HUMANOID_RIG }: PropsPanelProps) {
+    const bones = rig.joints.map(joint => joint.key);
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const imageTargetRef = useRef<string | null>(null); // Id of the prop the file picker is for
+
+    const updateProp = (id: string, patch: Partial<PropDefinition>) =>
+        onPropsChange(props.map(p => p.id === id ? { ...p, ...patch } : p));
+
+    const setAttachment = (id: string, attachment: PropAttachment) =>
+        onPosePropsChange({ ...pose.props, [id]: attachment });
+
+    // Handing over keeps the prop where it is in this keyframe.
+    const setHolder = (prop: PropDefinition, value: string) =>
+        setAttachment(prop.id, reparentAttachment(computeRigSkeleton(rig, pose), getPropAttachment(pose, prop), value === SET_DOWN ? null : value));
+
+    const loadImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        const id = imageTargetRef.current;
+        e.target.value = ''; // Allow the same file to be picked again
+        const prop = props.find(p => p.id === id);
+        if (!file || !prop) return;
+        const reader = new FileReader();
+        reader.onload = () => {
+            const image = reader.result as string;
+            const img = new Image();
+            // Keep the prop's length and take the height from the picture.
+            img.onload = () => updateProp(prop.id, { image, size: { x: prop.size.x, y: Math.round((prop.size.x * img.naturalHeight) / img.naturalWidth) } });
+            img.src = image;
+        };
+        reader.readAsDataURL(file);
+    };
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="text-sm text-white">Props</div>
+            <div className="flex flex-wrap gap-2">
+                {KINDS.map(kind => (
+                    <button key={kind} onClick={() => onPropsChange([...props, createPropPreset(kind, getUniquePropId(props, kind))])} className={chipClass} title={`Add ${kind}`}>
+                        + {kind}
+                    </button>
+                ))}
+                <button onClick={() => onPropsChange([])} disabled={props.length === 0} className={chipClass} title="Remove all props">
+                    Clear
+                </button>
+            </div>
+            <input ref={fileInputRef} type="file" accept="image/*" onChange={loadImage} className="hidden" />
+            {props.map(prop => {
+                const attachment = getPropAttachment(pose, prop);
+                const isSetDown = attachment.bone === null;
+                const setOffset = (patch: Partial<PropAttachment['offset']>) => setAttachment(prop.id, { ...attachment, offset: { ...attachment.offset, ...patch } });
+                return (
+                    <div key={prop.id} className="flex flex-col gap-1">
+                        <div className="flex items-center gap-2 text-xs">
+                            <span className="w-full truncate">{prop.id}</span>
+                            <button
+                                onClick={() => {
+                                    if (prop.image) return updateProp(prop.id, { image: undefined });
+                                    imageTargetRef.current = prop.id;
+                                    fileInputRef.current?.click();
+                                }}
+                                className={chipClass}
+                                title={prop.image ? 'Go back to the drawn shape' : 'Use a picture instead of the drawn shape'}
+                            >
+                                {prop.image ? 'Shape' : 'Image'}
+                            </button>
+                            <input
+                                type="color"
+                                value={prop.color}
+                                onChange={e => updateProp(prop.id, { color: e.target.value })}
+                                className="w-6 h-6 shrink-0 bg-transparent"
+                                title="Colour"
+                            />
+                            <button onClick={() => onPropsChange(props.filter(p => p.id !== prop.id))} className="text-white/50 hover:text-white" title={`Remove ${prop.id}`}>×</button>
+                        </div>
+                        <select
+                            value={attachment.bone ?? SET_DOWN}
+                            onChange={e => setHolder(prop, e.target.value)}
+                            className="w-full bg-white/10 rounded-md px-2 py-1 text-white/70 text-xs"
+                            title="What holds it in this keyframe"
+                        >
+                            <option value={SET_DOWN}>set down</option>
+                            {bones.map(key => <option key={key} value={key}>{key}</option>)}
+                        </select>
+                        <Slider label="X" value={Math.round(attachment.offset.x)} min={isSetDown ? 0 : -200} max={isSetDown ? W : 200} step={1} onChange={x => setOffset({ x })} />
+                        <Slider label="Y" value={Math.round(attachment.offset.y)} min={isSetDown ? 0 : -200} max={isSetDown ? H : 200} step={1} onChange={y => setOffset({ y })} />
+                        <Slider label="Rotation" value={toDeg(attachment.rotation)} min={-180} max={180} step={5} onChange={deg => setAttachment(prop.id, { ...attachment, rotation: toRad(deg) })} />
+                        <Slider label="Mass" value={prop.mass} min={0} max={5} step={0.1} onChange={mass => updateProp(prop.id, { mass })} />
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
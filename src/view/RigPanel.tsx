@@ -0,0 +1,56 @@
+import React, { useRef, useState } from 'react';
+import type { RigDefinition } from '../core/types';
+import { HUMANOID_RIG } from '../core/kinematics';
+import { serializeRig, parseRig } from '../core/rig';
+
+interface RigPanelProps {
+    rig: RigDefinition;
+    onRigChange: (rig: RigDefinition) => void; // Starts the animation over with the new rig's default pose
+}
+
+export function RigPanel({ rig, onRigChange }: RigPanelProps) {
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+    const [loadError, setLoadError] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const saveRig = () => {
+        const blob = new Blob([serializeRig(rig)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.download = `${rig.name || 'rig'}.json`;
+        link.href = URL.createObjectURL(blob);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    };
+
+    const loadRig = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow the same file to be picked again
+        if (!file) return;
+        const loaded = parseRig(await file.text());
+        setLoadError(!loaded);
+        if (loaded) onRigChange(loaded);
+    };
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-white">Rig</span>
+                <div className="flex gap-2">
+                    <button onClick={saveRig} className={chipClass} title="Save the rig to a file">Save</button>
+                    <button onClick={() => fileInputRef.current?.click()} className={`${chipClass} ${loadError ? 'text-red-500' : ''}`} title={loadError ? 'That file is not a rig' : 'Load a rig from a file; the animation starts over'}>
+                        Load
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={loadRig} className="hidden" />
+                </div>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate">{rig.name} · {rig.joints.length} joints</span>
+                <button onClick={() => onRigChange(HUMANOID_RIG)} disabled={rig === HUMANOID_RIG} className={`${chipClass} shrink-0`} title="Go back to the built-in mannequin; the animation starts over">
+                    Mannequin
+                </button>
+            </div>
+        </div>
+    );
+}
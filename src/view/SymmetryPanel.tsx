@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { getLimbRoots, type Side } from '../core/mirror';
+
+interface SymmetryPanelProps {
+    onMirrorPose: () => void;
+    onMirrorAnimation: () => void;
+    onCopySide: (from: Side, limb?: string) => void; // No limb copies the whole side
+}
+
+const LIMBS = getLimbRoots();
+const WHOLE_SIDE = ''; // Select value for every limb at once
+
+export function SymmetryPanel({ onMirrorPose, onMirrorAnimation, onCopySide }: SymmetryPanelProps) {
+    const chipClass = "px-2 py-1 rounded-md text-xs bg-white/10 hover:bg-white/20 transition-colors";
+    const [limb, setLimb] = useState(WHOLE_SIDE);
+    const copy = (from: Side) => onCopySide(from, limb === WHOLE_SIDE ? undefined : limb);
+
+    return (
+        <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
+            <div className="text-sm text-white">Symmetry</div>
+            <div className="flex flex-wrap gap-2">
+                <button onClick={onMirrorPose} className={chipClass} title="Flip this keyframe left to right">Mirror Pose</button>
+                <button onClick={onMirrorAnimation} className={chipClass} title="Flip every keyframe left to right">Mirror Animation</button>
+            </div>
+            <div className="flex items-center gap-2">
+                <select
+                    value={limb}
+                    onChange={e => setLimb(e.target.value)}
+                    className="w-full bg-white/10 rounded-md px-2 py-1 text-white/70 text-xs"
+                    title="What to copy"
+                >
+                    <option value={WHOLE_SIDE}>whole side</option>
+                    {LIMBS.map(key => <option key={key} value={key}>{key}</option>)}
+                </select>
+                <button onClick={() => copy('left')} className={`${chipClass} shrink-0`} title="Make the right side a mirror image of the left">L → R</button>
+                <button onClick={() => copy('right')} className={`${chipClass} shrink-0`} title="Make the left side a mirror image of the right">R → L</button>
+            </div>
+        </div>
+    );
+}
@@ -4,6 +4,8 @@ import React from 'react';
 const PlayIcon = () => ( <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M8 5V19L19 12L8 5Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/></svg> );
 const PauseIcon = () => ( <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M6 19H10V5H6V19ZM14 5V19H18V5H14Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/></svg> );
 const AddIcon = () => ( <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M12 5V19M5 12H19" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/></svg> );
+const StepBackIcon = () => ( <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M6 5V19M18 5L9 12L18 19V5Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/></svg> );
+const StepForwardIcon = () => ( <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M18 5V19M6 5L15 12L6 19V5Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/></svg> );
 const DeleteIcon = () => ( <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M4 7H20M10 11V17M14 11V17M5 7L6 19C6 20.1046 6.89543 21 8 21H16C17.1046 21 18 20.1046 18 19L19 7M9 7V4C9 3.44772 9.44772 3 10 3H14C14.5523 3 15 3.44772 15 4V7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/></svg> );
 
 interface TimelineProps {
@@ -15,6 +17,14 @@ interface TimelineProps {
     isPlaying: boolean;
     onTogglePlay: () => void;
     isPhysicsEnabled: boolean;
+    canPlayWithPhysics: boolean; // Active ragdoll follows playback while the simulation runs
+    simFrame: number;
+    simLength: number;
+    simTime: number;
+    isSimPaused: boolean;
+    onSimSeek: (frame: number) => void;
+    onSimTogglePause: () => void;
+    onSimStep: (delta: number) => void;
 }
 
 export function Timeline({ 
@@ -25,14 +35,22 @@ export function Timeline({
     onDeleteFrame,
     isPlaying,
     onTogglePlay,
-    isPhysicsEnabled
+    isPhysicsEnabled,
+    canPlayWithPhysics,
+    simFrame,
+    simLength,
+    simTime,
+    isSimPaused,
+    onSimSeek,
+    onSimTogglePause,
+    onSimStep
 }: TimelineProps) {
     const buttonClass = "p-2 rounded-md transition-colors text-white/70 hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed";
 
     return (
         <div className="w-full bg-black/20 rounded-xl p-3 flex flex-col gap-3">
             <div className="flex items-center gap-3">
-                <button onClick={onTogglePlay} disabled={isPhysicsEnabled} className={`${buttonClass} ${isPlaying ? 'text-red-500' : ''}`} title={isPlaying ? "Pause" : "Play"}>
+                <button onClick={onTogglePlay} disabled={isPhysicsEnabled && !canPlayWithPhysics} className={`${buttonClass} ${isPlaying ? 'text-red-500' : ''}`} title={isPlaying ? "Pause" : "Play"}>
                     {isPlaying ? <PauseIcon /> : <PlayIcon />}
                 </button>
                 <button onClick={onAddFrame} disabled={isPhysicsEnabled} className={buttonClass} title="Add Keyframe">
@@ -42,9 +60,29 @@ export function Timeline({
                     <DeleteIcon />
                 </button>
                 <div className="text-white/70 text-sm ml-auto tabular-nums">
-                    {isPhysicsEnabled ? 'Sim' : `${currentFrame + 1} / ${keyframesCount}`}
+                    {isPhysicsEnabled ? `Sim ${simTime.toFixed(2)}s` : `${currentFrame + 1} / ${keyframesCount}`}
                 </div>
             </div>
+            {isPhysicsEnabled && (
+                <div className="flex items-center gap-1">
+                    <button onClick={() => onSimStep(-1)} disabled={simFrame <= 0} className={buttonClass} title="Step Back">
+                        <StepBackIcon />
+                    </button>
+                    <button onClick={onSimTogglePause} className={`${buttonClass} ${isSimPaused ? 'text-red-500' : ''}`} title={isSimPaused ? "Resume simulation from here" : "Pause simulation"}>
+                        {isSimPaused ? <PlayIcon /> : <PauseIcon />}
+                    </button>
+                    <button onClick={() => onSimStep(1)} className={buttonClass} title="Step Forward">
+                        <StepForwardIcon />
+                    </button>
+                    <input
+                        type="range" min={0} max={Math.max(0, simLength - 1)} step={1}
+                        value={simFrame}
+                        onChange={e => onSimSeek(parseInt(e.target.value, 10))}
+                        className="w-full accent-red-500"
+                        title="Rewind the simulation"
+                    />
+                </div>
+            )}
             <div className={`flex-1 bg-black/20 rounded-md p-2 h-16 flex items-center gap-2 overflow-x-auto ${isPhysicsEnabled ? 'opacity-50' : ''}`}>
                 {Array.from({ length: keyframesCount }).map((_, index) => (
                     <button
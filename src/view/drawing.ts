@@ -1,118 +1,72 @@
 
-import type { BoneSegment, Point } from '../core/types';
-import { W } from '../core/kinematics';
+import type { BoneSegment, RigShape, Point, RigPose, RigDefinition, Skeleton, JointLimits, TargetObject, Collider, ForceField, ChainDefinition, ChainState, Balance, PropPlacement } from '../core/types';
+import { W, getJointFrame, HUMANOID_RIG } from '../core/kinematics';
+import { getRigTables, getRigDrawOrder } from '../core/rig';
 
 // --- Theme & constants ---
 const SELECTION_COLOR = '#E025A8'; // Magenta for "Aim" mode highlight
 const JOINT_FILL_COLOR = '#1A1A1A';
 const PIN_COLOR = '#FF3B30'; // Also used for pinned joints
 const JOINT_RADIUS = 5;
+const TARGET_COLOR = '#E07A5F';
+const COLLIDER_FILL = 'rgba(61, 43, 86, 0.18)';
+const COLLIDER_STROKE = 'rgba(61, 43, 86, 0.6)';
+const FORCE_FIELD_COLOR = 'rgba(42, 157, 143, 0.85)';
+const BALANCED_COLOR = '#2A9D8F';
+export const FORCE_FIELD_HANDLE_RADIUS = 12;
+const LIMIT_COLOR = 'rgba(224, 37, 168, 0.8)';
+const LIMIT_WEDGE_RADIUS = 44;
+export const LIMIT_HANDLE_RADIUS = 7;
+const THUMBNAIL_PADDING = 4;
+
+/**
+ * The order to draw a pose's bones in, back to front: by layer, then in the rig's draw order.
+ * Layering a shoulder or a hip brings the rest of the limb along.
+ */
+export const getDrawOrder = (pose: RigPose, rig: RigDefinition = HUMANOID_RIG): string[] => {
+    const { hierarchy } = getRigTables(rig);
+    const getLayer = (key: string): number => {
+        const parent = hierarchy[key]?.parent;
+        return pose.layers?.[key] ?? (parent ? getLayer(parent) : 0);
+    };
+    return getRigDrawOrder(rig)
+        .map((key, index) => ({ key, index, layer: getLayer(key) }))
+        .sort((a, b) => a.layer - b.layer || a.index - b.index)
+        .map(({ key }) => key);
+};
 
 // --- Asset Cache ---
 const imageCache: { [src: string]: HTMLImageElement } = {};
 
-// --- New part-specific color palette based on physical mass ---
-const PALETTE = {
-  PRIMARY_MASS: '#1A1A1A',  // Torso / Thighs / Upper Arms
-  PIVOT: '#4D4D4D',         // Waist / Head / Neck
-  END_EFFECTOR: '#808080',  // Forearms / Shins / Hands / Feet
-};
-
-const getColor = (key: string): string => {
-  if (key === 'head' || key === 'neck' || key === 'waist') return PALETTE.PIVOT;
-  if (key === 'torso' || key.includes('hip') || key.includes('shoulder')) return PALETTE.PRIMARY_MASS;
-  if (key.includes('knee') || key.includes('elbow') || key.includes('hand') || key.includes('foot')) return PALETTE.END_EFFECTOR;
-  return '#000000';
-};
-
-// --- Path definitions for each part ---
-const pathHead = (ctx: CanvasRenderingContext2D) => {
-  // A horizontal ellipse that will be rotated into a vertical position.
-  // Centered 32 units along the bone's local X-axis.
-  // Radius X (length) = 32, Radius Y (width) = 19.
-  ctx.beginPath();
-  ctx.ellipse(32, 0, 32, 19, 0, 0, Math.PI * 2);
-};
-
-// No visible neck piece in the target design.
-const pathNeck = (ctx: CanvasRenderingContext2D) => {};
-
-const pathTorso = (ctx: CanvasRenderingContext2D) => {
-  // A triangle with its tip at the origin (root joint) and its base at x=150 (neck).
-  // This is drawn horizontally and will be rotated upwards by the renderer.
-  ctx.beginPath();
-  ctx.moveTo(0, 0); 
-  ctx.lineTo(150, -50);
-  ctx.lineTo(150, 50);
-  ctx.closePath();
-};
-
-const pathWaist = (ctx: CanvasRenderingContext2D) => {
-  // A triangle with its base at the origin (root joint) and its tip at x=75 (waist-end).
-  // This is drawn horizontally and will be rotated downwards by the renderer.
-  ctx.beginPath();
-  ctx.moveTo(0, -29);
-  ctx.lineTo(75, 0);
-  ctx.lineTo(0, 29);
-  ctx.closePath();
-};
-
-// Generic diamond shape for limb segments
-const createLimbPath = (length: number, width: number) => (ctx: CanvasRenderingContext2D) => {
-    const halfWidth = width / 2;
-    ctx.beginPath();
-    ctx.moveTo(0, 0);
-    ctx.lineTo(length / 2, -halfWidth);
-    ctx.lineTo(length, 0);
-    ctx.lineTo(length / 2, halfWidth);
-    ctx.closePath();
-};
-
-// Arm segments
-const pathUpperArm = createLimbPath(105, 36);
-const pathForearm = createLimbPath(105, 28);
-
-// Leg segments
-const pathThigh = createLimbPath(125, 44);
-const pathShin = createLimbPath(125, 32);
-
-// End effectors - sharp triangles
-const pathHand = (ctx: CanvasRenderingContext2D) => {
-  ctx.beginPath();
-  ctx.moveTo(0, -5);
-  ctx.lineTo(42, 0);
-  ctx.lineTo(0, 5);
-  ctx.closePath();
-};
-
-const pathFoot = (ctx: CanvasRenderingContext2D) => {
-  ctx.beginPath();
-  ctx.moveTo(0, -8);
-  ctx.lineTo(42, 0);
-  ctx.lineTo(0, 8);
-  ctx.closePath();
-};
-
-
-const PATH_MAP: { [key: string]: (ctx: CanvasRenderingContext2D) => void } = {
-  'head': pathHead, 'neck': pathNeck, 'torso': pathTorso, 'waist': pathWaist,
-  'left.shoulder': pathUpperArm, 'right.shoulder': pathUpperArm,
-  'left.elbow': pathForearm, 'right.elbow': pathForearm,
-  'left.hand': pathHand, 'right.hand': pathHand,
-  'left.hip': pathThigh, 'right.hip': pathThigh,
-  'left.knee': pathShin, 'right.knee': pathShin,
-  'left.foot': pathFoot, 'right.foot': pathFoot,
+// --- Bone outlines, as the rig declares them ---
+// The outline is stretched by the bone's scale point by point, so strokes keep their width.
+const traceShape = (ctx: CanvasRenderingContext2D, shape: RigShape, scale: Point = { x: 1, y: 1 }): boolean => {
+  switch (shape.kind) {
+    case 'polygon':
+      ctx.beginPath();
+      shape.points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x * scale.x, p.y * scale.y) : ctx.lineTo(p.x * scale.x, p.y * scale.y));
+      ctx.closePath();
+      return shape.points.length > 0;
+    case 'ellipse':
+      ctx.beginPath();
+      ctx.ellipse(shape.center.x * scale.x, shape.center.y * scale.y, Math.abs(shape.radius.x * scale.x), Math.abs(shape.radius.y * scale.y), 0, 0, Math.PI * 2);
+      return true;
+    case 'none':
+      return false;
+  }
 };
 
 const drawSelectionHighlight = (ctx: CanvasRenderingContext2D, bone: BoneSegment) => {
-  const pathFn = PATH_MAP[bone.key];
-  if (!pathFn) return;
+  if (!bone.draw) return;
 
   ctx.save();
   ctx.translate(bone.start.x, bone.start.y);
   ctx.rotate(bone.angle);
   
-  pathFn(ctx);
+  if (!traceShape(ctx, bone.draw, bone.scale)) {
+    ctx.restore();
+    return;
+  }
 
   ctx.strokeStyle = SELECTION_COLOR;
   ctx.lineWidth = 12;
@@ -153,16 +107,16 @@ const drawImageAsset = (ctx: CanvasRenderingContext2D, bone: BoneSegment, assetU
 };
 
 const drawCustomPart = (ctx: CanvasRenderingContext2D, bone: BoneSegment) => {
-  const pathFn = PATH_MAP[bone.key];
-  if (!pathFn) return;
+  if (!bone.draw) return;
 
   ctx.save();
   ctx.translate(bone.start.x, bone.start.y);
   ctx.rotate(bone.angle);
 
-  pathFn!(ctx);
-  ctx.fillStyle = getColor(bone.key);
-  ctx.fill();
+  if (traceShape(ctx, bone.draw, bone.scale)) {
+    ctx.fillStyle = bone.color ?? '#000000';
+    ctx.fill();
+  }
 
   ctx.restore();
 };
@@ -180,6 +134,33 @@ export const drawPart = (ctx: CanvasRenderingContext2D, bone: BoneSegment, isHig
     drawCustomPart(ctx, bone);
 };
 
+/**
+ * Draws a whole skeleton shrunk to fit a `width` by `height` box at the origin, for thumbnails.
+ */
+export const drawSkeletonThumbnail = (ctx: CanvasRenderingContext2D, skeleton: Skeleton, width: number, height: number, order: string[] = getRigDrawOrder(HUMANOID_RIG)) => {
+    // Bounds of every bone, widened by half its width so the outlines fit too.
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    skeleton.bones.forEach(bone => {
+        const r = bone.width / 2;
+        [bone.start, bone.end].forEach(p => {
+            minX = Math.min(minX, p.x - r); maxX = Math.max(maxX, p.x + r);
+            minY = Math.min(minY, p.y - r); maxY = Math.max(maxY, p.y + r);
+        });
+    });
+    if (!Number.isFinite(minX)) return;
+    const fit = Math.min((width - 2 * THUMBNAIL_PADDING) / (maxX - minX), (height - 2 * THUMBNAIL_PADDING) / (maxY - minY));
+
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.scale(fit, fit);
+    ctx.translate(-(minX + maxX) / 2, -(minY + maxY) / 2);
+    order.forEach(key => {
+        const bone = skeleton.bones.find(b => b.key === key);
+        if (bone) drawCustomPart(ctx, bone);
+    });
+    ctx.restore();
+};
+
 export const drawJoints = (ctx: CanvasRenderingContext2D, joints: { [key: string]: Point }, pinnedPoints?: { [key: string]: Point } | null, dragMode?: string | null) => {
     const GROUNDED_PIN_COLOR = '#3B82F6'; // Blue for grounded pins
 
@@ -234,4 +215,314 @@ export const drawJointMarkers = (ctx: CanvasRenderingContext2D, joints: { [key:
         ctx.stroke();
     }
     ctx.restore();
-};
\ No newline at end of file
+};
+
+/**
+ * Draws secondary chains as ribbons. Filled ribbons taper from their full width at the root to a
+ * point at the tip; stroked ones keep one width along their length.
+ */
+export const drawChains = (ctx: CanvasRenderingContext2D, chains: ChainDefinition[], states: ChainState[]) => {
+    ctx.save();
+    chains.forEach((chain, i) => {
+        const points = states[i]?.points;
+        if (!points || points.length < 2) return;
+
+        if (chain.style === 'stroke') {
+            ctx.strokeStyle = chain.color;
+            ctx.lineWidth = chain.width;
+            ctx.lineCap = 'round';
+            ctx.lineJoin = 'round';
+            ctx.beginPath();
+            ctx.moveTo(points[0].x, points[0].y);
+            points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+            ctx.stroke();
+            return;
+        }
+
+        const left: Point[] = [], right: Point[] = [];
+        points.forEach((p, j) => {
+            const a = points[Math.max(0, j - 1)], b = points[Math.min(points.length - 1, j + 1)];
+            const angle = Math.atan2(b.y - a.y, b.x - a.x) + Math.PI / 2;
+            const half = (chain.width / 2) * (1 - j / (points.length - 1));
+            left.push({ x: p.x + Math.cos(angle) * half, y: p.y + Math.sin(angle) * half });
+            right.push({ x: p.x - Math.cos(angle) * half, y: p.y - Math.sin(angle) * half });
+        });
+        ctx.fillStyle = chain.color;
+        ctx.beginPath();
+        ctx.moveTo(left[0].x, left[0].y);
+        left.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+        right.reverse().forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        ctx.fill();
+    });
+    ctx.restore();
+};
+
+// Loads an image once; null until it has finished loading.
+const getLoadedImage = (src: string, onLoad?: () => void): HTMLImageElement | null => {
+    if (!imageCache[src]) {
+        const img = new Image();
+        if (onLoad) img.onload = onLoad;
+        img.src = src;
+        imageCache[src] = img;
+    }
+    return imageCache[src].complete ? imageCache[src] : null;
+};
+
+/**
+ * Draws props at their placements, with their pivot on the spot they are held by.
+ * Image props show their shape until the image has loaded, then `onImageLoad` is called.
+ */
+export const drawProps = (ctx: CanvasRenderingContext2D, placements: PropPlacement[], onImageLoad?: () => void) => {
+    placements.forEach(({ prop, pos, angle }) => {
+        ctx.save();
+        ctx.translate(pos.x, pos.y);
+        ctx.rotate(angle);
+        ctx.translate(-prop.pivot.x, -prop.pivot.y);
+
+        const image = prop.image ? getLoadedImage(prop.image, onImageLoad) : null;
+        if (image) {
+            ctx.drawImage(image, 0, -prop.size.y / 2, prop.size.x, prop.size.y);
+        } else if (traceShape(ctx, prop.shape)) {
+            ctx.fillStyle = prop.color;
+            ctx.fill();
+        }
+        ctx.restore();
+    });
+};
+
+export const drawTargets = (ctx: CanvasRenderingContext2D, targets: TargetObject[]) => {
+    ctx.save();
+    targets.forEach(t => {
+        ctx.fillStyle = TARGET_COLOR;
+        ctx.beginPath();
+        ctx.arc(t.pos.x, t.pos.y, t.radius, 0, 2 * Math.PI);
+        ctx.fill();
+
+        // Small highlight so the ball reads as a solid object rather than a pin
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+        ctx.beginPath();
+        ctx.arc(t.pos.x - t.radius * 0.35, t.pos.y - t.radius * 0.35, t.radius * 0.3, 0, 2 * Math.PI);
+        ctx.fill();
+    });
+    ctx.restore();
+};
+
+export const drawColliders = (ctx: CanvasRenderingContext2D, colliders: Collider[], isEditing: boolean) => {
+    ctx.save();
+    colliders.forEach(collider => {
+        if (collider.points.length < 2) return;
+        ctx.beginPath();
+        ctx.moveTo(collider.points[0].x, collider.points[0].y);
+        collider.points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        ctx.fillStyle = COLLIDER_FILL;
+        ctx.fill();
+        ctx.strokeStyle = COLLIDER_STROKE;
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        if (isEditing) {
+            // Vertex handles
+            collider.points.forEach(p => {
+                ctx.fillStyle = '#FFFFFF';
+                ctx.strokeStyle = COLLIDER_STROKE;
+                ctx.lineWidth = 1.5;
+                ctx.beginPath();
+                ctx.rect(p.x - 5, p.y - 5, 10, 10);
+                ctx.fill();
+                ctx.stroke();
+            });
+        }
+    });
+    ctx.restore();
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, from: Point, angle: number, length: number) => {
+    const to = { x: from.x + Math.cos(angle) * length, y: from.y + Math.sin(angle) * length };
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.lineTo(to.x - Math.cos(angle - 0.5) * 10, to.y - Math.sin(angle - 0.5) * 10);
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x - Math.cos(angle + 0.5) * 10, to.y - Math.sin(angle + 0.5) * 10);
+    ctx.stroke();
+};
+
+export const drawForceFields = (ctx: CanvasRenderingContext2D, fields: ForceField[], isEditing: boolean) => {
+    ctx.save();
+    ctx.strokeStyle = FORCE_FIELD_COLOR;
+    ctx.fillStyle = FORCE_FIELD_COLOR;
+    ctx.lineWidth = 2;
+    ctx.font = '12px sans-serif';
+    fields.forEach(field => {
+        const { pos } = field;
+
+        // Reach
+        if (field.radius > 0) {
+            ctx.save();
+            ctx.setLineDash([6, 6]);
+            ctx.globalAlpha = 0.5;
+            ctx.beginPath();
+            ctx.arc(pos.x, pos.y, field.radius, 0, 2 * Math.PI);
+            ctx.stroke();
+            ctx.restore();
+        }
+
+        switch (field.kind) {
+            case 'wind':
+                [-16, 0, 16].forEach(offset => {
+                    const start = { x: pos.x - Math.sin(field.direction) * offset, y: pos.y + Math.cos(field.direction) * offset };
+                    drawArrow(ctx, start, field.direction, 40);
+                });
+                break;
+            case 'explosion':
+                for (let i = 0; i < 8; i++) {
+                    const angle = (i * Math.PI) / 4;
+                    ctx.beginPath();
+                    ctx.moveTo(pos.x + Math.cos(angle) * 6, pos.y + Math.sin(angle) * 6);
+                    ctx.lineTo(pos.x + Math.cos(angle) * 18, pos.y + Math.sin(angle) * 18);
+                    ctx.stroke();
+                }
+                ctx.fillText(`${field.time}s`, pos.x + 20, pos.y - 12);
+                break;
+            case 'attractor': {
+                // Arrows point inwards for a pull, outwards for a push.
+                const pull = field.strength >= 0;
+                for (let i = 0; i < 4; i++) {
+                    const angle = (i * Math.PI) / 2 + Math.PI / 4;
+                    const outer = { x: pos.x + Math.cos(angle) * 34, y: pos.y + Math.sin(angle) * 34 };
+                    const inner = { x: pos.x + Math.cos(angle) * 10, y: pos.y + Math.sin(angle) * 10 };
+                    drawArrow(ctx, pull ? outer : inner, pull ? angle + Math.PI : angle, 24);
+                }
+                break;
+            }
+        }
+
+        if (isEditing) {
+            ctx.fillStyle = '#FFFFFF';
+            ctx.beginPath();
+            ctx.arc(pos.x, pos.y, FORCE_FIELD_HANDLE_RADIUS / 2, 0, 2 * Math.PI);
+            ctx.fill();
+            ctx.stroke();
+            ctx.fillStyle = FORCE_FIELD_COLOR;
+        }
+    });
+    ctx.restore();
+};
+
+export type LimitHandle = { key: string; end: 'min' | 'max'; pos: Point; pivot: Point; zeroAngle: number };
+
+/**
+ * The draggable ends of every joint limit wedge, for drawing and hit-testing alike.
+ */
+export const getLimitHandles = (skeleton: Skeleton, limits: JointLimits, rig: RigDefinition = HUMANOID_RIG): LimitHandle[] =>
+    Object.entries(limits).flatMap(([key, range]) => {
+        const frame = getJointFrame(skeleton, key, rig);
+        if (!frame) return [];
+        return (['min', 'max'] as const).map(end => ({
+            key, end, pivot: frame.pivot, zeroAngle: frame.zeroAngle,
+            pos: {
+                x: frame.pivot.x + Math.cos(frame.zeroAngle + range[end]) * LIMIT_WEDGE_RADIUS,
+                y: frame.pivot.y + Math.sin(frame.zeroAngle + range[end]) * LIMIT_WEDGE_RADIUS,
+            },
+        }));
+    });
+
+/**
+ * Draws each limited joint's allowed arc as a wedge around the point it turns about,
+ * with the bone's current direction and a handle on both ends.
+ */
+export const drawLimitWedges = (ctx: CanvasRenderingContext2D, skeleton: Skeleton, limits: JointLimits, activeKey?: string | null, rig: RigDefinition = HUMANOID_RIG) => {
+    ctx.save();
+    Object.entries(limits).forEach(([key, range]) => {
+        const frame = getJointFrame(skeleton, key, rig);
+        const bone = skeleton.bones.find(b => b.key === key);
+        if (!frame || !bone) return;
+        const { pivot, zeroAngle } = frame;
+
+        ctx.globalAlpha = !activeKey || activeKey === key ? 1 : 0.35;
+        ctx.beginPath();
+        ctx.moveTo(pivot.x, pivot.y);
+        ctx.arc(pivot.x, pivot.y, LIMIT_WEDGE_RADIUS, zeroAngle + range.min, zeroAngle + range.max);
+        ctx.closePath();
+        ctx.fillStyle = 'rgba(224, 37, 168, 0.12)';
+        ctx.fill();
+        ctx.strokeStyle = LIMIT_COLOR;
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+
+        ctx.beginPath();
+        ctx.moveTo(pivot.x, pivot.y);
+        ctx.lineTo(pivot.x + Math.cos(bone.angle) * LIMIT_WEDGE_RADIUS, pivot.y + Math.sin(bone.angle) * LIMIT_WEDGE_RADIUS);
+        ctx.setLineDash([3, 3]);
+        ctx.stroke();
+        ctx.setLineDash([]);
+    });
+    ctx.globalAlpha = 1;
+    getLimitHandles(skeleton, limits, rig).forEach(handle => {
+        ctx.globalAlpha = !activeKey || activeKey === handle.key ? 1 : 0.35;
+        ctx.beginPath();
+        ctx.arc(handle.pos.x, handle.pos.y, LIMIT_HANDLE_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = handle.end === 'min' ? '#FFFFFF' : LIMIT_COLOR;
+        ctx.fill();
+        ctx.strokeStyle = LIMIT_COLOR;
+        ctx.stroke();
+    });
+    ctx.restore();
+};
+
+/**
+ * Draws the support polygon and the centre of mass with a plumb line dropped to the ground,
+ * teal while the pose is balanced and red while it would tip over.
+ */
+export const drawBalance = (ctx: CanvasRenderingContext2D, balance: Balance) => {
+    const { centerOfMass: com, support, isBalanced } = balance;
+    const color = isBalanced ? BALANCED_COLOR : PIN_COLOR;
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+
+    if (support.length > 0) {
+        ctx.globalAlpha = 0.35;
+        ctx.lineWidth = 6;
+        ctx.lineJoin = 'round';
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(support[0].x, support[0].y);
+        support.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        ctx.stroke();
+        if (support.length > 2) ctx.fill();
+        ctx.globalAlpha = 1;
+    }
+
+    const groundY = support.length > 0 ? Math.max(...support.map(p => p.y)) : com.y;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(com.x, com.y);
+    ctx.lineTo(com.x, groundY);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // The usual centre of mass symbol: a circle with alternate quarters filled.
+    const r = 8;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.beginPath();
+    ctx.arc(com.x, com.y, r, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.fillStyle = color;
+    [0, Math.PI].forEach(start => {
+        ctx.beginPath();
+        ctx.moveTo(com.x, com.y);
+        ctx.arc(com.x, com.y, r, start, start + Math.PI / 2);
+        ctx.closePath();
+        ctx.fill();
+    });
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.arc(com.x, com.y, r, 0, 2 * Math.PI);
+    ctx.stroke();
+    ctx.restore();
+};